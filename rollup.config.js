@@ -5,8 +5,31 @@ import minify from 'rollup-plugin-babel-minify';
 import replace from '@rollup/plugin-replace';
 
 const ENVIRONMENT = process.env.NODE_ENV;
+const { version: VERSION } = require('./package.json');
 
 export default [
+    {
+        input: './src/core.ts',
+        output: {
+            file: './dist/altv-rpc-core.mjs',
+            format: 'esm'
+        },
+        plugins: [
+            replace({
+                'process.env.NODE_ENV': JSON.stringify(ENVIRONMENT || 'development'),
+                'process.env.RPC_VERSION': JSON.stringify(VERSION)
+            }),
+            resolve({
+                extensions: ['.ts']
+            }),
+            babel({
+                extensions: ['.ts']
+            }),
+            ENVIRONMENT === 'production' ? minify({
+                comments: false
+            }) : undefined
+        ]
+    },
     {
         input: './src/index.ts',
         output: {
@@ -15,7 +38,8 @@ export default [
         },
         plugins: [
             replace({
-                'process.env.NODE_ENV': JSON.stringify(ENVIRONMENT || 'development')
+                'process.env.NODE_ENV': JSON.stringify(ENVIRONMENT || 'development'),
+                'process.env.RPC_VERSION': JSON.stringify(VERSION)
             }),
             resolve({
                 extensions: ['.ts']
@@ -38,7 +62,8 @@ export default [
         },
         plugins: [
             replace({
-                'process.env.NODE_ENV': JSON.stringify(ENVIRONMENT || 'development')
+                'process.env.NODE_ENV': JSON.stringify(ENVIRONMENT || 'development'),
+                'process.env.RPC_VERSION': JSON.stringify(VERSION)
             }),
             modify({
                 find: /import alt from 'alt';/,
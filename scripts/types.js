@@ -0,0 +1,16 @@
+// Puts the declarations emitted by tsc behind the entry points of the package. tsc doesn't emit the ambient types
+// of src/defs.d.ts, which the declarations refer to, so they're copied next to them.
+const fs = require('fs');
+const path = require('path');
+
+const dist = path.join(__dirname, '..', 'dist');
+
+fs.copyFileSync(path.join(__dirname, '..', 'src', 'defs.d.ts'), path.join(dist, 'types', 'defs.d.ts'));
+
+const entry = (module, extra = '') => `/// <reference path="./types/defs.d.ts" />\n\n${extra}export * from './types/${module}';\n`;
+
+fs.writeFileSync(path.join(dist, 'altv-rpc.d.ts'), entry('index', 'export as namespace rpc;\n\n') + `export { default } from './types/index';\n`);
+
+// `.mjs` imports are looked up with `.mjs.d.ts` by older versions of TypeScript, and with `.d.mts` by newer ones
+fs.writeFileSync(path.join(dist, 'altv-rpc-core.mjs.d.ts'), entry('core'));
+fs.writeFileSync(path.join(dist, 'altv-rpc-core.d.mts'), entry('core'));
@@ -0,0 +1,5 @@
+declare module 'alt' {
+    const x: any;
+
+    export default x;
+}
@@ -0,0 +1,134 @@
+const DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const MARKER = '\u0001'; // starts a back-reference. JSON never contains it unescaped
+const MIN_MATCH = 6; // a back-reference takes 5 characters, so shorter matches aren't worth it
+const MAX_MATCH = MIN_MATCH + DIGITS.length - 1; // the length is stored in a single digit
+const WINDOW = DIGITS.length * DIGITS.length * DIGITS.length; // the distance is stored in three digits
+const MAX_CHAIN = 16; // how many earlier positions to try for each match
+
+/**
+ * Compresses a string with LZ77. Repeated substrings are replaced by a back-reference to their previous occurrence:
+ * the marker, three digits of distance and one digit of length.
+ *
+ * Returns `undefined` if the string can't be compressed because it contains the marker itself.
+ */
+export function compress(data: string): string | undefined {
+    if (data.includes(MARKER)) return;
+
+    const length = data.length;
+    const heads: Map<string, number> = new Map(); // the last position of each prefix
+    const prev = new Int32Array(length).fill(-1); // the position before that with the same prefix
+    const out: string[] = [];
+
+    const insert = (pos: number) => {
+        if (pos + MIN_MATCH > length) return;
+
+        const key = data.substr(pos, MIN_MATCH);
+        const head = heads.get(key);
+
+        if (typeof head === 'number') prev[pos] = head;
+        heads.set(key, pos);
+    };
+
+    let literalStart = 0;
+    let pos = 0;
+
+    while (pos < length) {
+        let bestLength = 0;
+        let bestDistance = 0;
+
+        if (pos + MIN_MATCH <= length) {
+            let candidate = heads.get(data.substr(pos, MIN_MATCH));
+            let tries = 0;
+
+            while (typeof candidate === 'number' && candidate >= 0 && pos - candidate <= WINDOW && tries++ < MAX_CHAIN) {
+                let matched = 0;
+                while (matched < MAX_MATCH && pos + matched < length && data.charCodeAt(candidate + matched) === data.charCodeAt(pos + matched)) matched++;
+
+                if (matched > bestLength) {
+                    bestLength = matched;
+                    bestDistance = pos - candidate;
+                    if (matched === MAX_MATCH) break;
+                }
+
+                candidate = prev[candidate];
+            }
+        }
+
+        if (bestLength >= MIN_MATCH) {
+            if (literalStart < pos) out.push(data.slice(literalStart, pos));
+            out.push(MARKER + encodeNumber(bestDistance - 1, 3) + DIGITS[bestLength - MIN_MATCH]);
+
+            for (let i = 0; i < bestLength; i++) insert(pos + i);
+
+            pos += bestLength;
+            literalStart = pos;
+        } else {
+            insert(pos);
+            pos++;
+        }
+    }
+
+    if (literalStart < length) out.push(data.slice(literalStart));
+
+    return out.join('');
+}
+
+/**
+ * Restores a string compressed by `compress`.
+ *
+ * Returns `undefined` if the result would be longer than `maxLength`.
+ */
+export function decompress(data: string, maxLength = Infinity): string | undefined {
+    const codes: number[] = [];
+    let pos = 0;
+
+    while (pos < data.length) {
+        let next = data.indexOf(MARKER, pos);
+        if (next === -1) next = data.length;
+
+        for (let i = pos; i < next; i++) codes.push(data.charCodeAt(i));
+
+        if (next < data.length) {
+            const distance = decodeNumber(data, next + 1, 3) + 1;
+            const matched = DIGITS.indexOf(data[next + 4]) + MIN_MATCH;
+
+            // the match can overlap with itself, so copy one character at a time
+            for (let i = 0; i < matched; i++) codes.push(codes[codes.length - distance]);
+        }
+
+        if (codes.length > maxLength) return;
+
+        pos = next + 5;
+    }
+
+    let out = '';
+
+    // String.fromCharCode can only take so many arguments at once
+    for (let i = 0; i < codes.length; i += 8192) {
+        out += String.fromCharCode.apply(null, codes.slice(i, i + 8192));
+    }
+
+    return out;
+}
+
+function encodeNumber(value: number, digits: number) {
+    let out = '';
+
+    for (let i = 0; i < digits; i++) {
+        out = DIGITS[value % DIGITS.length] + out;
+        value = Math.floor(value / DIGITS.length);
+    }
+
+    return out;
+}
+
+function decodeNumber(data: string, start: number, digits: number) {
+    let value = 0;
+
+    for (let i = 0; i < digits; i++) {
+        value = value * DIGITS.length + DIGITS.indexOf(data[start + i]);
+    }
+
+    return value;
+}
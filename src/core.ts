@@ -0,0 +1,9 @@
+import { RpcError } from './errors';
+import { createRpc } from './rpc';
+import { createMemoryNetwork } from './transports/memory';
+
+/**
+ * The parts of the library that work without alt:V, e.g. to run procedures in plain Node against the memory network.
+ * Instances created here need a transport.
+ */
+export { createRpc, createMemoryNetwork, RpcError };
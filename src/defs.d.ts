@@ -1,19 +1,725 @@
-declare type ProcedureListener = (args: any, info: ProcedureListenerInfo) => any;
-
-declare module 'alt' {
-    const x: any;
-
-    export default x;
-}
+declare type ProcedureListener<A = any, R = any> = (args: A, info: ProcedureListenerInfo) => R;
 
 declare interface ProcedureListenerInfo {
     environment: string;
     id?: string;
     player?: any;
     browser?: any;
+
+    /** Aborted when the caller cancels the request or it times out. */
+    signal?: RpcAbortSignal;
+
+    /** Sends a progress update to the caller's `onProgress`. Does nothing if the caller isn't listening. */
+    progress?: (value: any) => void;
+
+    /** The player a call relayed by the server came from, if it was sent with `callPlayer` or `triggerPlayer`. */
+    origin?: any;
+
+    /** The entity ID of that player. Also set in the browser, where players aren't available. */
+    originId?: number;
+
+    /** The resource a call came from, if it was made with `callResource`. For outgoing calls, the resource they go to. */
+    resource?: string;
 }
 
 declare interface CallOptions {
     timeout?: number;
     noRet?: boolean;
+
+    /** Cancels the call when aborted. Accepts an `AbortSignal`. */
+    signal?: RpcAbortSignal;
+
+    /** Receives the progress updates the procedure sends with `info.progress()`. */
+    onProgress?: (value: any) => void;
+
+    /** Which browser `callBrowsers` calls when several registered the procedure. `all` resolves to a result for each. Defaults to `last`. */
+    browsers?: 'first' | 'last' | 'all';
+
+    /** Makes `callBrowsers` call the browser that was added with this ID instead. */
+    browserId?: string;
+
+    /** Tries the call again if it fails. A number is the number of attempts. */
+    retry?: number | RetryOptions;
+
+    /** Makes the receiver run the call only once, even if it's made again with the same key. Retries get one automatically. */
+    idempotencyKey?: string;
+}
+
+declare interface RetryOptions {
+    /** How many times to try the call, including the first attempt. */
+    attempts: number;
+
+    /** How long to wait before the first retry, in milliseconds. Defaults to 200. */
+    delay?: number;
+
+    /** `exponential` doubles the delay after every retry, `fixed` keeps it. Defaults to `exponential`. */
+    backoff?: 'fixed' | 'exponential';
+
+    /** The longest delay between retries, in milliseconds. Defaults to 5000. */
+    maxDelay?: number;
+
+    /** The error codes worth retrying. Defaults to `['TIMEOUT']`. */
+    codes?: string[];
+}
+
+/**
+ * How a call to one of many players or browsers went.
+ */
+declare interface CallResult<R = any> {
+    /** `timeout` if the other side didn't respond within the call's `timeout` option. */
+    status: 'success' | 'error' | 'timeout';
+
+    /** The result, if the call succeeded. */
+    value?: R;
+
+    /** Why the call failed. */
+    error?: import('./errors').RpcError;
+}
+
+/**
+ * How the call to one browser went, when `callBrowsers` calls all of them.
+ */
+declare interface BrowserCallResult<R = any> extends CallResult<R> {
+    /** The ID the browser was added with, if any. */
+    id?: string;
+}
+
+declare interface WebViewOptions {
+    /** Lets `callBrowsers`, `callBrowser` and `triggerBrowser` address the WebView by this ID. */
+    id?: string;
+}
+
+/**
+ * Another environment that has initialized RPC with the same namespace. See `rpc.ready()`.
+ */
+declare interface PeerInfo {
+    environment: string;
+    version: string;
+    namespace: string;
+}
+
+/**
+ * A state on the server that clients and browsers can subscribe to. See `rpc.state()`.
+ */
+declare interface SharedState<T = any> {
+    readonly name: string;
+
+    /** The current value. Don't mutate it, pass a new value to `set` or `patch` instead. */
+    get(): T;
+
+    /** Replaces the value. Subscribers only receive what changed. */
+    set(value: T): void;
+
+    /** Replaces some top-level keys of the value. Keys set to `undefined` are removed. */
+    patch(changes: Partial<T>): void;
+}
+
+/**
+ * A result that arrives chunk by chunk, for procedures that return an async iterable.
+ * Consume it with `for await`, or by calling `next()`. Stopping early cancels the procedure.
+ */
+declare interface RpcStream<T = any> {
+    next(): Promise<{ done: boolean, value: T }>;
+    return(): Promise<{ done: boolean, value: T }>;
+}
+
+/**
+ * The subset of `AbortSignal` that RPC relies on.
+ */
+declare interface RpcAbortSignal {
+    aborted: boolean;
+    reason?: any;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+declare interface RegisterOptions {
+    /** What the procedure does, for `listProcedures` and developer tools. */
+    description?: string;
+
+    /** Checked against the arguments before the procedure runs. Mismatches are rejected with `INVALID_ARGUMENTS`. */
+    validate?: Schema;
+
+    /** Checked against the result in development builds. Mismatches are rejected with `INVALID_RESULT`. */
+    returns?: Schema;
+
+    /** The environments that may call the procedure remotely. Others are rejected with `FORBIDDEN`. Local calls are always allowed. */
+    allow?: ('server' | 'client' | 'cef')[];
+
+    /** Only allows local calls. Remote callers are rejected with `PROCEDURE_NOT_FOUND`, as if it wasn't registered. */
+    internal?: boolean;
+
+    /** Lets other resources on the same side call the procedure with `callResource`. To them, others aren't registered. */
+    public?: boolean;
+}
+
+/**
+ * A registered procedure, as listed by `listProcedures`.
+ */
+declare interface ProcedureInfo {
+    name: string;
+    description?: string;
+    validate?: Schema;
+    returns?: Schema;
+}
+
+/**
+ * Where to look for procedures.
+ */
+declare type ProcedureTarget = 'server' | 'client' | 'browsers';
+
+declare interface QueryOptions {
+    /** The player whose client or browsers to look at. Required on the server for those targets. */
+    player?: any;
+
+    timeout?: number;
+}
+
+/**
+ * Describes the shape of a value. Type names can be used as a shorthand for required values, e.g. `'string'`.
+ */
+declare type Schema = SchemaDefinition | 'any' | 'string' | 'number' | 'boolean' | 'entity' | 'array' | 'object';
+
+declare type SchemaDefinition = AnySchema | StringSchema | NumberSchema | BooleanSchema | EntitySchema | EnumSchema | ArraySchema | ObjectSchema;
+
+declare interface BaseSchema {
+    /** Allows `undefined` and `null`. */
+    optional?: boolean;
+}
+
+declare interface AnySchema extends BaseSchema {
+    type: 'any';
+}
+
+declare interface StringSchema extends BaseSchema {
+    type: 'string';
+
+    /** Minimum length. */
+    min?: number;
+
+    /** Maximum length. */
+    max?: number;
+}
+
+declare interface NumberSchema extends BaseSchema {
+    type: 'number';
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+declare interface BooleanSchema extends BaseSchema {
+    type: 'boolean';
+}
+
+/** A reference to an alt:V entity, such as a player or a vehicle. */
+declare interface EntitySchema extends BaseSchema {
+    type: 'entity';
+}
+
+declare interface EnumSchema extends BaseSchema {
+    type: 'enum';
+    values: any[];
+}
+
+declare interface ArraySchema extends BaseSchema {
+    type: 'array';
+
+    /** The schema of every item. */
+    items?: Schema;
+
+    /** Minimum number of items. */
+    min?: number;
+
+    /** Maximum number of items. */
+    max?: number;
+}
+
+declare interface ObjectSchema extends BaseSchema {
+    type: 'object';
+    props?: { [prop: string]: Schema };
+
+    /** Rejects properties that aren't in `props`. */
+    strict?: boolean;
+}
+
+/**
+ * What a middleware knows about a call passing through it.
+ */
+declare interface MiddlewareContext {
+    /** The name of the procedure. */
+    name: string;
+
+    /** The arguments of the call. Can be replaced before calling `next()`. */
+    args: any;
+
+    /** Information about the call. For outgoing calls, `environment` is our own and `player`/`browser` are the target. */
+    info: ProcedureListenerInfo;
+
+    /** `incoming` for requests from other environments, `outgoing` for calls we make to them. */
+    direction: 'incoming' | 'outgoing';
+
+    /** The result, once `next()` has resolved. Can be set or replaced to change what the caller receives. */
+    result?: any;
+
+    /** The error, if `next()` rejected. */
+    error?: any;
+}
+
+/**
+ * Wraps calls. Skip `next()` to short-circuit the call, or throw to reject it.
+ */
+declare type Middleware = (ctx: MiddlewareContext, next: () => Promise<void>) => any;
+
+declare interface InitOptions {
+    /** The transport used to talk to other environments. Defaults to the alt:V transport. */
+    transport?: RpcTransport;
+
+    /** How long to wait for the remaining parts of a chunked event, in milliseconds. Defaults to 10000. */
+    partialTimeout?: number;
+
+    /** Limits what each player can send to the server. Server only. */
+    rateLimit?: RateLimitOptions;
+
+    /**
+     * How arguments and results are encoded for the wire: `json`, `extended` or a custom serializer. Defaults to `json`.
+     * Incoming packets are decoded with whatever format they were sent in, and responses are sent back in it.
+     */
+    serializer?: 'json' | 'extended' | RpcSerializer;
+
+    /** How many characters each part of a large event can have, per route. `0` sends events in one piece. */
+    chunkSize?: ChunkSizes;
+
+    /** Compresses the arguments of outgoing events. `true` uses the default threshold. */
+    compression?: boolean | CompressionOptions;
+
+    /** The maximum length of an incoming event's arguments once reassembled and decompressed. Unlimited by default. */
+    maxEventSize?: number;
+
+    /** Sends everything that is sent to the same place within a task together, as if it was all wrapped in `batch()`. */
+    batching?: boolean;
+
+    /** Makes calls wait until the other side has initialized RPC, instead of getting lost. */
+    waitForReady?: boolean;
+
+    /** How long the outcome of a call with an idempotency key is kept for its retries, in milliseconds. Defaults to 60000. */
+    idempotencyWindow?: number;
+
+    /** Lets players call procedures on other players through the server. Server only. Nothing is relayed without it. */
+    relay?: RelayOptions;
+
+    /** Records every event that is sent or received, for `getRecords` and `exportRecords`. `true` uses the defaults. */
+    inspector?: boolean | InspectorOptions;
+
+    /** Periodically hands a snapshot of the metrics to an exporter. */
+    metrics?: MetricsOptions;
+
+    /** Where log messages go. Defaults to `alt.log`, or the console outside of alt:V. */
+    logger?: RpcLogger;
+
+    /** The least important messages of this instance that are logged. See `rpc.setLogLevel()`. */
+    logLevel?: LogLevel;
+}
+
+declare interface RpcOptions extends InitOptions {
+    /** Initializes the instance right away with this namespace, like calling `init()` on it. */
+    namespace?: string;
+}
+
+/**
+ * How important a log message is. `silent` logs nothing when used as a level.
+ */
+declare type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * What a log message is about, so loggers can forward it as structured data.
+ */
+declare interface LogFields {
+    environment: string;
+    namespace: string;
+
+    /** The procedure that was being called. */
+    procedure?: string;
+
+    /** The ID of the call or event. */
+    id?: string;
+
+    /** The entity ID of the player on the other side, on the server. */
+    player?: number;
+
+    [field: string]: any;
+}
+
+/**
+ * Receives log messages. Only the messages at or above the current level are passed on.
+ */
+declare interface RpcLogger {
+    debug(message: string, fields: LogFields): void;
+    info(message: string, fields: LogFields): void;
+    warn(message: string, fields: LogFields): void;
+    error(message: string, fields: LogFields): void;
+}
+
+declare interface MetricsOptions {
+    /** How often the snapshot is exported, in milliseconds. Defaults to 60000. */
+    interval?: number;
+
+    /** Receives the snapshot in the Prometheus text format, along with the metrics it was made from. */
+    onExport?: (snapshot: string, metrics: RpcMetrics) => void;
+}
+
+/**
+ * What was measured since RPC was loaded. See `rpc.getMetrics()`.
+ */
+declare interface RpcMetrics {
+    environment: string;
+    namespace: string;
+    procedures: ProcedureMetrics[];
+}
+
+/**
+ * The calls to one procedure over one route, either the ones we made or the ones we handled.
+ */
+declare interface ProcedureMetrics {
+    name: string;
+    route: 'network' | 'webView' | 'resource';
+
+    /** `outgoing` for calls we made, `incoming` for calls we handled. */
+    direction: 'outgoing' | 'incoming';
+
+    calls: number;
+
+    /** The number of failed calls, by error code. */
+    errors: { [code: string]: number };
+
+    timeouts: number;
+
+    /** The calls that haven't finished yet. */
+    inFlight: number;
+
+    /** The length of the stringified arguments and results that were sent. */
+    bytesSent: number;
+
+    /** The length of the stringified arguments and results that were received. */
+    bytesReceived: number;
+
+    /** How long the calls took, in milliseconds. Percentiles are estimated from the histogram. */
+    latency: LatencyMetrics;
+}
+
+declare interface LatencyMetrics {
+    count: number;
+    sum: number;
+    max: number;
+    p50: number;
+    p95: number;
+    p99: number;
+
+    /** How many calls took at most each number of milliseconds, the last bucket being `Infinity`. */
+    buckets: { le: number, count: number }[];
+}
+
+declare interface InspectorOptions {
+    /** How many records are kept. The oldest ones are dropped first. Defaults to 1000. */
+    capacity?: number;
+
+    /** Keeps the stringified arguments of each event, which `replay` needs. Off by default, since they can be large or private. */
+    args?: boolean;
+
+    /** Called with every record as soon as it's made. */
+    onRecord?: (record: RpcRecord) => void;
+}
+
+/**
+ * What an event was for. Requests are answered by a `response` or an `error`, or by a `response` that starts
+ * a stream of `chunk`s until its `end`.
+ */
+declare type RpcRecordKind = 'request' | 'response' | 'error' | 'cancel' | 'progress' | 'chunk' | 'end';
+
+/**
+ * An event that was sent or received, as recorded by the inspector.
+ */
+declare interface RpcRecord {
+    /** When the event was sent, or when its last part was received. */
+    time: number;
+
+    direction: 'in' | 'out';
+    kind: RpcRecordKind;
+
+    /** The ID of the request, which its responses share. */
+    id: string;
+
+    /** The procedure that was called. Responses get it from their request, if it was recorded. */
+    name?: string;
+
+    route: 'network' | 'webView' | 'resource';
+
+    /** The other side: `server`, `client`, the ID of a player or the ID of a webview, `cef` for webviews added without one, or the name of a resource. */
+    peer: string | number;
+
+    /** The environment that sent the event. */
+    env: string;
+
+    /** The environment a relayed request came from. */
+    fenv?: string;
+
+    /** The length of the stringified arguments. */
+    size: number;
+
+    /** How many parts the event was split into. */
+    parts: number;
+
+    /** How long the call took, on the record that finished it. */
+    duration?: number;
+
+    /** How the call ended, on the record that finished it. */
+    outcome?: 'success' | 'error' | 'cancelled';
+
+    /** The stringified arguments, if the inspector keeps them. They may be compressed. */
+    args?: string;
+
+    /** The event as it went over the wire, without its arguments. Used by `replay`. */
+    packet: { [prop: string]: any };
+}
+
+declare interface RecordFilter {
+    /** Only records of this procedure. */
+    name?: string;
+
+    /** Only records of this request. */
+    id?: string;
+
+    direction?: 'in' | 'out';
+    kind?: RpcRecordKind;
+    peer?: string | number;
+
+    /** Only records made at or after this time. */
+    since?: number;
+
+    /** Only the most recent records, up to this many. */
+    limit?: number;
+}
+
+declare interface ReplayOptions {
+    /** The player to send to, when replaying with a server transport. */
+    player?: any;
+
+    /** The webview to send to, when replaying calls from a client to its browsers. */
+    webView?: any;
+
+    /** The namespace the recording was made in. Defaults to our own. */
+    namespace?: string;
+
+    /** How fast to replay compared to the recording. `0` sends everything at once. Defaults to 1, which keeps the original timing. */
+    speed?: number;
+
+    signal?: RpcAbortSignal;
+}
+
+declare interface RelayOptions {
+    /** The procedures and events players may relay. Without it, every name is up to `authorize`. */
+    procedures?: string[];
+
+    /** Decides whether `from` may call `name` on `to`. Called for every relayed call, after the `procedures` check. */
+    authorize?(from: any, to: any, name: string, target: 'client' | 'browser'): boolean | Promise<boolean>;
+}
+
+declare interface ChunkSizes {
+    /** Between the server and clients. Defaults to 10000. */
+    network?: number;
+
+    /** Between clients and their webviews. Defaults to 10000. */
+    webView?: number;
+
+    /** Between resources on the same side. Defaults to 10000. */
+    resource?: number;
+}
+
+declare interface CompressionOptions {
+    /** Only arguments at least this long are compressed. Defaults to 1024. */
+    threshold?: number;
+}
+
+/**
+ * Which limit a player broke.
+ */
+declare type LimitReason = 'requests' | 'procedure' | 'concurrency' | 'payload' | 'parts' | 'partials';
+
+declare interface RateLimitOptions {
+    /** Maximum requests per second for each player, across all procedures. */
+    requestsPerSecond?: number;
+
+    /** Maximum requests per second for each player, per procedure name. */
+    procedures?: { [name: string]: number };
+
+    /** Maximum requests of each player that can be running at the same time. */
+    maxConcurrent?: number;
+
+    /** Maximum length of a reassembled packet's stringified arguments. */
+    maxPayloadSize?: number;
+
+    /** Maximum number of parts a packet can be split into. */
+    maxParts?: number;
+
+    /** Maximum number of packets of each player that came in parts and are still incomplete. */
+    maxPartials?: number;
+
+    /** Called whenever a player breaks a limit, e.g. to log or kick them. */
+    onLimit?: (player: any, reason: LimitReason, procedure?: string) => void;
+}
+
+/**
+ * Encodes arguments and results for the wire. Binary formats such as MessagePack must put their bytes in a string,
+ * e.g. base64, since every environment can pass strings around.
+ */
+declare interface RpcSerializer {
+    /** Identifies the format on the wire. Both sides must use a serializer with the same name. */
+    name: string;
+
+    /** Encodes a value. Entities can be turned into IDs with the transport's `encodeEntity`. */
+    serialize(value: any, transport: RpcTransport): string;
+
+    /** Decodes what `serialize` produced. Entity IDs can be looked up with the transport's `decodeEntity`. */
+    deserialize(data: string, transport: RpcTransport): any;
+}
+
+/**
+ * Moves RPC packets between environments. The alt:V wiring is the default implementation.
+ */
+declare interface RpcTransport {
+    /** The role of the current environment: `server`, `client` or `cef`. */
+    environment: string;
+
+    /** Emits an event on the local bus. In CEF, this reaches the owning client. */
+    emit(name: string, data: any): void;
+
+    /** Subscribes to the local bus. In CEF, this receives events from the owning client. */
+    on(name: string, cb: (data: any) => void): void;
+
+    /** Removes a handler added with `on`. */
+    off?(name: string, cb: (data: any) => void): void;
+
+    /** Emits an event to the server. Client only. */
+    emitServer?(name: string, data: any): void;
+
+    /** Subscribes to events from the server. Client only. */
+    onServer?(name: string, cb: (data: any) => void): void;
+
+    /** Removes a handler added with `onServer`. Client only. */
+    offServer?(name: string, cb: (data: any) => void): void;
+
+    /** Emits an event to a player's client. Server only. */
+    emitClient?(player: any, name: string, data: any): void;
+
+    /** Subscribes to events from any client. Server only. */
+    onClient?(name: string, cb: (player: any, data: any) => void): void;
+
+    /** Removes a handler added with `onClient`. Server only. */
+    offClient?(name: string, cb: (player: any, data: any) => void): void;
+
+    /** Subscribes to players leaving the server. Server only. */
+    onPlayerDisconnect?(cb: (player: any) => void): void;
+
+    /** Removes a handler added with `onPlayerDisconnect`. Server only. */
+    offPlayerDisconnect?(cb: (player: any) => void): void;
+
+    /** Lists the connected players. Server only. */
+    getPlayers?(): any[];
+
+    /** Emits an event into a webview. Client only. */
+    emitWebView?(webView: any, name: string, data: any): void;
+
+    /** Subscribes to events emitted by a webview. Client only. */
+    onWebView?(webView: any, name: string, cb: (data: any) => void): void;
+
+    /** Removes a handler added with `onWebView`. Client only. */
+    offWebView?(webView: any, name: string, cb: (data: any) => void): void;
+
+    /** Returns the ID of an entity, or `undefined` if the value is not an entity. Omit if there are no entities. */
+    encodeEntity?(value: any): number | undefined;
+
+    /** Looks up an entity by the ID produced by `encodeEntity`. */
+    decodeEntity?(id: number): any;
+
+    /** The name of the resource we run in. Other resources can only call us if it's set. Server and client only. */
+    resource?: string;
+
+    /** Checks whether a resource on the same side is running. Server and client only. */
+    hasResource?(name: string): boolean;
+
+    /** Claims a namespace. Returns false if it's already in use. */
+    requestNamespace(namespace: string): boolean;
+
+    /** Releases a namespace claimed with `requestNamespace`, so it can be claimed again. */
+    releaseNamespace?(namespace: string): void;
+}
+
+declare type RpcEnvironment = 'server' | 'client' | 'browser';
+
+/**
+ * Declares the procedures of each environment by their signature, e.g. `{ server: { getBalance(args: { id: number }): number } }`.
+ *
+ * Events are declared the same way, with a `void` return type.
+ */
+declare interface RpcContract {
+    server?: object;
+    client?: object;
+    browser?: object;
+}
+
+declare type ProcedureName<C extends RpcContract, E extends RpcEnvironment> = Extract<keyof NonNullable<C[E]>, string>;
+
+declare type ProcedureOf<C extends RpcContract, E extends RpcEnvironment, K> = K extends keyof NonNullable<C[E]> ? NonNullable<C[E]>[K] : never;
+
+declare type ProcedureArgs<F> = F extends (...args: infer A) => any ? A : [any?];
+
+declare type ProcedureResult<F> = F extends (...args: any[]) => infer R ? (R extends PromiseLike<infer U> ? U : R) : any;
+
+/** The arguments after the name: args are optional if the procedure doesn't need any. */
+declare type ProcedureCallParams<F> = [] extends ProcedureArgs<F> ? [ProcedureArgs<F>[0]?, CallOptions?] : [ProcedureArgs<F>[0], CallOptions?];
+
+declare type ProcedureTriggerParams<F> = [] extends ProcedureArgs<F> ? [ProcedureArgs<F>[0]?] : [ProcedureArgs<F>[0]];
+
+declare type TypedListener<F> = ProcedureListener<ProcedureArgs<F>[0], ProcedureResult<F> | PromiseLike<ProcedureResult<F>>>;
+
+/**
+ * The procedure functions of RPC, checked against a contract from the point of view of environment `E`.
+ */
+declare interface TypedProcedures<C extends RpcContract, E extends RpcEnvironment> {
+    register<K extends ProcedureName<C, E>>(name: K, cb: TypedListener<ProcedureOf<C, E, K>>, options?: RegisterOptions): void;
+    unregister<K extends ProcedureName<C, E>>(name: K): void;
+    call<K extends ProcedureName<C, E>>(name: K, ...params: ProcedureCallParams<ProcedureOf<C, E, K>>): Promise<ProcedureResult<ProcedureOf<C, E, K>>>;
+    callServer<K extends ProcedureName<C, 'server'>>(name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'server', K>>): Promise<ProcedureResult<ProcedureOf<C, 'server', K>>>;
+    callClient: E extends 'server'
+        ? <K extends ProcedureName<C, 'client'>>(player: any, name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'client', K>>) => Promise<ProcedureResult<ProcedureOf<C, 'client', K>>>
+        : <K extends ProcedureName<C, 'client'>>(name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'client', K>>) => Promise<ProcedureResult<ProcedureOf<C, 'client', K>>>;
+    callBrowsers: E extends 'server'
+        ? <K extends ProcedureName<C, 'browser'>>(player: any, name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'browser', K>>) => Promise<ProcedureResult<ProcedureOf<C, 'browser', K>>>
+        : <K extends ProcedureName<C, 'browser'>>(name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'browser', K>>) => Promise<ProcedureResult<ProcedureOf<C, 'browser', K>>>;
+    callBrowser<K extends ProcedureName<C, 'browser'>>(browser: any, name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'browser', K>>): Promise<ProcedureResult<ProcedureOf<C, 'browser', K>>>;
+    callClients<K extends ProcedureName<C, 'client'>>(players: any[] | 'all', name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'client', K>>): Promise<Map<any, CallResult<ProcedureResult<ProcedureOf<C, 'client', K>>>>>;
+    callBrowsersOf<K extends ProcedureName<C, 'browser'>>(players: any[] | 'all', name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'browser', K>>): Promise<Map<any, CallResult<ProcedureResult<ProcedureOf<C, 'browser', K>>>>>;
+    callPlayer<K extends ProcedureName<C, 'client'>>(player: any, name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'client', K>>): Promise<ProcedureResult<ProcedureOf<C, 'client', K>>>;
+    callPlayerBrowsers<K extends ProcedureName<C, 'browser'>>(player: any, name: K, ...params: ProcedureCallParams<ProcedureOf<C, 'browser', K>>): Promise<ProcedureResult<ProcedureOf<C, 'browser', K>>>;
+    on<K extends ProcedureName<C, E>>(name: K, cb: TypedListener<ProcedureOf<C, E, K>>): void;
+    off<K extends ProcedureName<C, E>>(name: K, cb: TypedListener<ProcedureOf<C, E, K>>): void;
+    trigger<K extends ProcedureName<C, E>>(name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, E, K>>): void;
+    triggerServer<K extends ProcedureName<C, 'server'>>(name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'server', K>>): void;
+    triggerClient: E extends 'server'
+        ? <K extends ProcedureName<C, 'client'>>(player: any, name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'client', K>>) => void
+        : <K extends ProcedureName<C, 'client'>>(name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'client', K>>) => void;
+    triggerBrowsers: E extends 'server'
+        ? <K extends ProcedureName<C, 'browser'>>(player: any, name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'browser', K>>) => void
+        : <K extends ProcedureName<C, 'browser'>>(name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'browser', K>>) => void;
+    triggerBrowser<K extends ProcedureName<C, 'browser'>>(browser: any, name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'browser', K>>): void;
+    triggerClients<K extends ProcedureName<C, 'client'>>(players: any[] | 'all', name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'client', K>>): void;
+    triggerBrowsersOf<K extends ProcedureName<C, 'browser'>>(players: any[] | 'all', name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'browser', K>>): void;
+    triggerPlayer<K extends ProcedureName<C, 'client'>>(player: any, name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'client', K>>): void;
+    triggerPlayerBrowsers<K extends ProcedureName<C, 'browser'>>(player: any, name: K, ...params: ProcedureTriggerParams<ProcedureOf<C, 'browser', K>>): void;
 }
+
+/**
+ * RPC with every procedure function checked against a contract. See `rpc.typed()`.
+ * `R` is what the types are put on: the default export, or an instance created with `createRpc`.
+ */
+declare type TypedRpc<C extends RpcContract, E extends RpcEnvironment, R = typeof import('./index').default> = Omit<R, keyof TypedProcedures<C, E>> & TypedProcedures<C, E>;
@@ -0,0 +1,103 @@
+/** The code for procedures that threw something other than an `RpcError`. */
+export const ERR_PROCEDURE_ERROR = 'PROCEDURE_ERROR';
+
+/**
+ * Where an error came from.
+ */
+export interface RpcErrorInfo {
+    /** The environment the error originated in. */
+    environment?: string;
+
+    /** The procedure that was being called. */
+    procedure?: string;
+
+    /** Any extra information about the error. */
+    details?: any;
+}
+
+/**
+ * An RPC error as it's sent across the network.
+ */
+export interface SerializedRpcError extends RpcErrorInfo {
+    code: string;
+    message: string;
+    stack?: string;
+}
+
+/**
+ * The error that every failed call is rejected with.
+ *
+ * Procedures can throw their own to send a business error to the caller:
+ * `throw new RpcError('INSUFFICIENT_FUNDS', 'You cannot afford this.', { details: { missing: 50 } })`
+ */
+export class RpcError extends Error {
+    /** A machine-readable code, such as `PROCEDURE_NOT_FOUND` or `TIMEOUT`. */
+    code: string;
+
+    /** The environment the error originated in. */
+    environment?: string;
+
+    /** The procedure that was being called. */
+    procedure?: string;
+
+    /** Any extra information about the error. */
+    details?: any;
+
+    constructor(code: string, message?: string, info: RpcErrorInfo = {}) {
+        super(message || code);
+
+        this.name = 'RpcError';
+        this.code = code;
+        this.environment = info.environment;
+        this.procedure = info.procedure;
+        this.details = info.details;
+    }
+
+    /**
+     * Serializes the error for transmission. The stack is only included in development builds.
+     */
+    toJSON(): SerializedRpcError {
+        const json: SerializedRpcError = {
+            code: this.code,
+            message: this.message,
+            environment: this.environment,
+            procedure: this.procedure,
+            details: this.details
+        };
+
+        if (process.env.NODE_ENV !== 'production') json.stack = this.stack;
+
+        return json;
+    }
+
+    /**
+     * Turns anything a procedure threw, or a serialized error, into an `RpcError`.
+     *
+     * @param value - the thrown value
+     * @param info - fills in whatever the value doesn't say about itself
+     */
+    static from(value: any, info: RpcErrorInfo = {}): RpcError {
+        let err: RpcError;
+
+        if (value instanceof RpcError) {
+            err = value;
+        } else if (value instanceof Error) {
+            err = new RpcError(ERR_PROCEDURE_ERROR, value.message);
+            err.stack = value.stack;
+        } else if (typeof value === 'string') {
+            // error codes used to be sent as bare strings
+            err = new RpcError(value);
+        } else if (value && typeof value === 'object' && typeof value.code === 'string') {
+            err = new RpcError(value.code, value.message, value);
+            if (typeof value.stack === 'string') err.stack = value.stack;
+        } else {
+            err = new RpcError(ERR_PROCEDURE_ERROR, 'The procedure failed.', { details: value });
+        }
+
+        if (!err.environment) err.environment = info.environment;
+        if (!err.procedure) err.procedure = info.procedure;
+        if (typeof err.details === 'undefined') err.details = info.details;
+
+        return err;
+    }
+}
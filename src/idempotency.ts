@@ -0,0 +1,97 @@
+/**
+ * The result of a request that succeeded, so it can be sent to its duplicates.
+ */
+export interface Outcome {
+    value: any;
+}
+
+/**
+ * A request that ran or is still running.
+ */
+export interface Earlier {
+    outcome: Promise<Outcome | undefined>;
+
+    /** The stringified arguments it was made with, as they were sent. */
+    args: string | undefined;
+
+    /** When the outcome is forgotten. Never while the request is running. */
+    expires: number;
+}
+
+/**
+ * Remembers the outcomes of requests that carry an idempotency key, per procedure. Failed requests are forgotten, so they can be retried.
+ */
+export interface IdempotencyCache {
+    /** Gets an earlier request of a peer to the same procedure with the same key. Its outcome resolves once it finished. */
+    get(peer: any, name: string, key: string): Earlier | undefined;
+
+    /**
+     * Remembers that a request of a peer is running. The returned function settles it:
+     * with its outcome, or with nothing if it failed or can't be replayed, in which case it's forgotten.
+     */
+    add(peer: any, name: string, key: string, args: string | undefined): (outcome?: Outcome) => void;
+
+    /** Forgets about a peer. */
+    forget(peer: any): void;
+}
+
+/**
+ * Creates a cache that keeps the outcomes of each peer for a while after their requests finished.
+ *
+ * @param window - how long outcomes are kept, in milliseconds
+ */
+export function createIdempotencyCache(window: number): IdempotencyCache {
+    const peers: Map<any, Map<string, Earlier>> = new Map();
+
+    // a key only stands for the same request if it's used for the same procedure
+    const getId = (name: string, key: string) => `${name}\n${key}`;
+
+    const sweep = (entries: Map<string, Earlier>) => {
+        const now = Date.now();
+
+        entries.forEach((entry, key) => {
+            if (entry.expires <= now) entries.delete(key);
+        });
+    };
+
+    return {
+        get(peer, name, key) {
+            const entries = peers.get(peer);
+            const entry = entries && entries.get(getId(name, key));
+
+            if (entry && entry.expires > Date.now()) return entry;
+        },
+        add(peer, name, key, args) {
+            const id = getId(name, key);
+
+            let entries = peers.get(peer);
+            if (!entries) peers.set(peer, entries = new Map());
+
+            sweep(entries);
+
+            let resolve: (outcome?: Outcome) => void;
+            let settled = false;
+
+            const entry: Earlier = {
+                outcome: new Promise(r => resolve = r),
+                args,
+                expires: Infinity
+            };
+
+            entries.set(id, entry);
+
+            return outcome => {
+                if (settled) return;
+                settled = true;
+
+                if (outcome) entry.expires = Date.now() + window;
+                else if (entries.get(id) === entry) entries.delete(id);
+
+                resolve(outcome);
+            };
+        },
+        forget(peer) {
+            peers.delete(peer);
+        }
+    };
+}
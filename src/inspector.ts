@@ -0,0 +1,168 @@
+import * as util from './util';
+
+const CAPACITY = 1000; // default number of records that are kept
+const MAX_TRACKED = 1000; // requests and split events we follow at most, in case their ends never show up
+
+/**
+ * An event or a part of it, as it goes over the wire.
+ */
+export interface Packet {
+    id: string;
+    name?: string;
+    env: string;
+    fenv?: string;
+    part: number;
+    total: number;
+    args?: string;
+    noRet?: 1;
+    stream?: 1;
+    [prop: string]: any;
+}
+
+/**
+ * Turns the events that are sent and received into records.
+ */
+export interface Inspector {
+    /** Takes note of an event. Split events are recorded once their last part went through. */
+    observe(direction: 'in' | 'out', kind: RpcRecordKind, packet: Packet, peer: string | number, route: RpcRecord['route']): void;
+
+    /** The kept records that match the filter, oldest first. */
+    records(filter?: RecordFilter): RpcRecord[];
+
+    /** Forgets the kept records. */
+    clear(): void;
+}
+
+/**
+ * Creates an inspector that keeps the most recent records in memory.
+ */
+export function createInspector(options: InspectorOptions): Inspector {
+    const capacity = typeof options.capacity === 'number' ? options.capacity : CAPACITY;
+    const kept: RpcRecord[] = [];
+    const requests: Map<string, { name: string, time: number }> = new Map();
+    const partials: Map<string, { size: number, args: string }> = new Map();
+
+    const track = <T>(map: Map<string, T>, key: string, value: T) => {
+        map.set(key, value);
+        if (map.size > MAX_TRACKED) map.delete(map.keys().next().value);
+    };
+
+    const finish = (kind: RpcRecordKind, packet: Packet) => {
+        if (kind === 'error') return 'error';
+        if (kind === 'cancel') return 'cancelled';
+        if (kind === 'end' || (kind === 'response' && !packet.stream)) return 'success';
+    };
+
+    return {
+        observe(direction, kind, packet, peer, route) {
+            const { part, total, args, ...header } = packet;
+
+            let size = args ? args.length : 0;
+            let joined = args;
+
+            if (total > 1) {
+                const key = `${direction}:${packet.type}:${packet.id}`;
+                const partial = partials.get(key) || { size: 0, args: '' };
+
+                partial.size += size;
+                if (options.args && args) partial.args += args;
+
+                if (part < total) return track(partials, key, partial);
+
+                partials.delete(key);
+                size = partial.size;
+                joined = partial.args;
+            }
+
+            const now = Date.now();
+
+            const record: RpcRecord = {
+                time: now,
+                direction,
+                kind,
+                id: packet.id,
+                route,
+                peer,
+                env: packet.env,
+                size,
+                parts: total,
+                packet: header
+            };
+
+            if (packet.name) record.name = packet.name;
+            if (packet.fenv) record.fenv = packet.fenv;
+            if (options.args && typeof joined === 'string') record.args = joined;
+
+            const request = requests.get(packet.id);
+
+            if (kind === 'request') {
+                if (!packet.noRet) track(requests, packet.id, { name: packet.name, time: now });
+            } else if (request) {
+                record.name = request.name;
+
+                const outcome = finish(kind, packet);
+
+                if (outcome) {
+                    record.outcome = outcome;
+                    record.duration = now - request.time;
+                    requests.delete(packet.id);
+                }
+            }
+
+            if (capacity > 0) {
+                kept.push(record);
+                if (kept.length > capacity) kept.splice(0, kept.length - capacity);
+            }
+
+            if (options.onRecord) options.onRecord(record);
+        },
+        records(filter = {}) {
+            const found = kept.filter(record => (
+                (typeof filter.name === 'undefined' || record.name === filter.name)
+                && (typeof filter.id === 'undefined' || record.id === filter.id)
+                && (typeof filter.direction === 'undefined' || record.direction === filter.direction)
+                && (typeof filter.kind === 'undefined' || record.kind === filter.kind)
+                && (typeof filter.peer === 'undefined' || record.peer === filter.peer)
+                && (typeof filter.since === 'undefined' || record.time >= filter.since)
+            ));
+
+            return typeof filter.limit === 'number' ? found.slice(Math.max(0, found.length - filter.limit)) : found;
+        },
+        clear() {
+            kept.length = 0;
+        }
+    };
+}
+
+/**
+ * Writes records as JSON lines, one record per line.
+ */
+export function toJsonLines(records: RpcRecord[]): string {
+    return records.map(record => JSON.stringify(record)).join('\n');
+}
+
+/**
+ * Reads records written by `toJsonLines`. Empty lines are skipped.
+ */
+export function fromJsonLines(data: string): RpcRecord[] {
+    return data.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+}
+
+/**
+ * Hands records to `send` in order, waiting between them as long as they were apart when they were recorded.
+ *
+ * @param speed - divides the waiting time, `0` doesn't wait at all
+ * @returns the number of records that were sent
+ */
+export async function play(records: RpcRecord[], speed: number, signal: RpcAbortSignal | undefined, send: (record: RpcRecord) => void): Promise<number> {
+    for (let i = 0; i < records.length; i++) {
+        const gap = i && speed > 0 ? (records[i].time - records[i - 1].time) / speed : 0;
+
+        if (gap > 0) await util.promiseCancellable(new Promise(resolve => util.setTimeout(resolve, gap)), { signal });
+        else if (signal && signal.aborted) throw 'ABORTED';
+
+        send(records[i]);
+    }
+
+    return records.length;
+}
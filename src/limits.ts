@@ -0,0 +1,112 @@
+/**
+ * What a player has been up to during the current window.
+ */
+interface Usage {
+    /** When the current one second window started. */
+    windowStart: number;
+
+    /** The number of requests in the current window. */
+    count: number;
+
+    /** The number of requests per procedure in the current window. */
+    procedures: { [prop: string]: number };
+
+    /** The number of requests that are still running. */
+    inFlight: number;
+
+    /** The number of events that came in parts and are still incomplete. */
+    partials: number;
+}
+
+/**
+ * Enforces rate limits for incoming packets from players.
+ */
+export interface Limiter {
+    /** Checks the size of a packet as it's being assembled. */
+    checkPacket(total: number, args?: string): LimitReason | undefined;
+
+    /**
+     * Checks whether a player may start sending another event in parts. If so, it counts as a request right away,
+     * and as incomplete until closed.
+     */
+    openPartial(player: any): LimitReason | undefined;
+
+    /** Marks an event of a player that came in parts as complete or expired. */
+    closePartial(player: any): void;
+
+    /**
+     * Checks whether a player may make another request. If so, it counts as in flight until released.
+     * Requests that came in parts were already counted when they were opened.
+     */
+    acquire(player: any, name: string, counted?: boolean): LimitReason | undefined;
+
+    /** Marks a request of a player as finished. */
+    release(player: any): void;
+
+    /** Forgets about a player. */
+    forget(player: any): void;
+}
+
+/**
+ * Creates a limiter that keeps track of each player separately.
+ */
+export function createLimiter(options: RateLimitOptions): Limiter {
+    const usages: Map<any, Usage> = new Map();
+
+    const getUsage = (player: any) => {
+        let usage = usages.get(player);
+
+        if (!usage) {
+            usage = { windowStart: 0, count: 0, procedures: {}, inFlight: 0, partials: 0 };
+            usages.set(player, usage);
+        }
+
+        const now = Date.now();
+        if (now - usage.windowStart >= 1000) {
+            usage.windowStart = now;
+            usage.count = 0;
+            usage.procedures = {};
+        }
+
+        return usage;
+    };
+
+    return {
+        checkPacket(total, args) {
+            if (typeof options.maxParts === 'number' && total > options.maxParts) return 'parts';
+            if (typeof options.maxPayloadSize === 'number' && args && args.length > options.maxPayloadSize) return 'payload';
+        },
+        openPartial(player) {
+            const usage = getUsage(player);
+
+            if (typeof options.maxPartials === 'number' && usage.partials >= options.maxPartials) return 'partials';
+            if (typeof options.requestsPerSecond === 'number' && usage.count >= options.requestsPerSecond) return 'requests';
+
+            usage.count++;
+            usage.partials++;
+        },
+        closePartial(player) {
+            const usage = usages.get(player);
+            if (usage && usage.partials > 0) usage.partials--;
+        },
+        acquire(player, name, counted) {
+            const usage = getUsage(player);
+            const procedureLimit = options.procedures && options.procedures[name];
+
+            if (typeof options.maxConcurrent === 'number' && usage.inFlight >= options.maxConcurrent) return 'concurrency';
+            if (!counted && typeof options.requestsPerSecond === 'number' && usage.count >= options.requestsPerSecond) return 'requests';
+            if (typeof procedureLimit === 'number' && (usage.procedures[name] || 0) >= procedureLimit) return 'procedure';
+
+            if (!counted) usage.count++;
+            usage.procedures[name] = (usage.procedures[name] || 0) + 1;
+            usage.inFlight++;
+        },
+        release(player) {
+            const usage = usages.get(player);
+            if (usage && usage.inFlight > 0) usage.inFlight--;
+        },
+        forget(player) {
+            usages.delete(player);
+        }
+    };
+}
@@ -0,0 +1,56 @@
+import * as util from './util';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Logs to the alt:V console, or the browser's console, prefixed with the environment.
+ */
+export const defaultLogger: RpcLogger = {
+    debug: (message, fields) => print('log', console.log, message, fields),
+    info: (message, fields) => print('log', console.log, message, fields),
+    warn: (message, fields) => print('logWarning', console.warn, message, fields),
+    error: (message, fields) => print('logError', console.error, message, fields)
+};
+
+function print(method: string, fallback: (line: string) => void, message: string, fields: LogFields) {
+    const alt = util.getAlt();
+    const line = `RPC (${fields.environment}): ${message}`;
+
+    if (alt && alt[method]) alt[method](line);
+    else fallback(line);
+}
+
+/**
+ * Decides which messages are logged, per namespace.
+ */
+export interface LogLevels {
+    /** Sets the level of a namespace. Without one, sets the level of every namespace. */
+    set(level: LogLevel, namespace?: string): void;
+
+    /** Checks whether messages of a level are logged for a namespace. */
+    enabled(level: LogLevel, namespace: string): boolean;
+}
+
+/**
+ * Creates log levels where every namespace starts out at the given level.
+ */
+export function createLogLevels(level: LogLevel): LogLevels {
+    const levels: Map<string, LogLevel> = new Map();
+    let fallback = level;
+
+    return {
+        set(level, namespace) {
+            if (!LEVELS.includes(level)) throw `Unknown log level "${level}"`;
+
+            if (typeof namespace === 'string') {
+                levels.set(namespace, level);
+            } else {
+                levels.clear();
+                fallback = level;
+            }
+        },
+        enabled(level, namespace) {
+            return LEVELS.indexOf(level) >= LEVELS.indexOf(levels.get(namespace) || fallback);
+        }
+    };
+}
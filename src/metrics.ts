@@ -0,0 +1,198 @@
+const BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, Infinity]; // upper bounds of the latency histogram, in milliseconds
+
+type Direction = ProcedureMetrics['direction'];
+type Route = ProcedureMetrics['route'];
+
+/**
+ * The counters of one procedure, route and direction.
+ */
+interface Series {
+    name: string;
+    route: Route;
+    direction: Direction;
+    calls: number;
+    errors: { [code: string]: number };
+    inFlight: number;
+    bytesSent: number;
+    bytesReceived: number;
+
+    /** The number of calls in each bucket, not cumulative. */
+    buckets: number[];
+
+    sum: number;
+    max: number;
+}
+
+/**
+ * Counts calls and measures how long they take.
+ */
+export interface Metrics {
+    /**
+     * Counts a call. If it's awaited, it's in flight until the returned function is called
+     * with nothing if it succeeded, or its error code.
+     */
+    call(direction: Direction, name: string, route: Route, awaited: boolean): (code?: string) => void;
+
+    /** Counts what a call sent and received. */
+    transfer(direction: Direction, name: string, route: Route, sent: number, received: number): void;
+
+    /** Summarizes everything that was measured so far. */
+    snapshot(): ProcedureMetrics[];
+}
+
+/**
+ * Creates metrics that keep a series for every procedure, route and direction.
+ */
+export function createMetrics(): Metrics {
+    const series: Map<string, Series> = new Map();
+
+    const getSeries = (direction: Direction, name: string, route: Route) => {
+        const key = `${direction}|${route}|${name}`;
+        let entry = series.get(key);
+
+        if (!entry) {
+            entry = {
+                name,
+                route,
+                direction,
+                calls: 0,
+                errors: {},
+                inFlight: 0,
+                bytesSent: 0,
+                bytesReceived: 0,
+                buckets: BUCKETS.map(() => 0),
+                sum: 0,
+                max: 0
+            };
+            series.set(key, entry);
+        }
+
+        return entry;
+    };
+
+    return {
+        call(direction, name, route, awaited) {
+            const entry = getSeries(direction, name, route);
+            entry.calls++;
+
+            if (!awaited) return () => undefined;
+
+            const start = Date.now();
+            let finished = false;
+
+            entry.inFlight++;
+
+            return code => {
+                if (finished) return;
+                finished = true;
+
+                const duration = Date.now() - start;
+
+                entry.inFlight--;
+                entry.buckets[BUCKETS.findIndex(bound => duration <= bound)]++;
+                entry.sum += duration;
+                entry.max = Math.max(entry.max, duration);
+
+                if (code) entry.errors[code] = (entry.errors[code] || 0) + 1;
+            };
+        },
+        transfer(direction, name, route, sent, received) {
+            const entry = getSeries(direction, name, route);
+
+            entry.bytesSent += sent;
+            entry.bytesReceived += received;
+        },
+        snapshot() {
+            return Array.from(series.values()).map(entry => ({
+                name: entry.name,
+                route: entry.route,
+                direction: entry.direction,
+                calls: entry.calls,
+                errors: { ...entry.errors },
+                timeouts: entry.errors.TIMEOUT || 0,
+                inFlight: entry.inFlight,
+                bytesSent: entry.bytesSent,
+                bytesReceived: entry.bytesReceived,
+                latency: summarize(entry)
+            }));
+        }
+    };
+}
+
+function summarize(entry: Series): LatencyMetrics {
+    let cumulative = 0;
+
+    const buckets = BUCKETS.map((le, idx) => ({ le, count: cumulative += entry.buckets[idx] }));
+    const count = cumulative;
+
+    // like Prometheus' histogram_quantile, but the last bucket ends at the slowest call instead of going on forever
+    const quantile = (q: number) => {
+        if (!count) return 0;
+
+        const rank = q * count;
+        const idx = buckets.findIndex(bucket => bucket.count >= rank);
+        const lower = idx ? BUCKETS[idx - 1] : 0;
+        const upper = Math.min(BUCKETS[idx], entry.max);
+        const below = idx ? buckets[idx - 1].count : 0;
+        const inside = buckets[idx].count - below;
+
+        return upper <= lower ? upper : lower + (upper - lower) * (rank - below) / inside;
+    };
+
+    return {
+        count,
+        sum: entry.sum,
+        max: entry.max,
+        p50: quantile(0.5),
+        p95: quantile(0.95),
+        p99: quantile(0.99),
+        buckets
+    };
+}
+
+/**
+ * Formats metrics in the Prometheus text format. Latencies are in seconds there, as Prometheus expects.
+ *
+ * @param labels - added to every sample, e.g. the namespace
+ */
+export function toPrometheus(metrics: ProcedureMetrics[], labels: { [name: string]: string }): string {
+    const lines: string[] = [];
+
+    const format = (values: { [name: string]: string }) => {
+        const pairs = Object.keys(values).map(name => `${name}="${escape(values[name])}"`);
+        return `{${pairs.join(',')}}`;
+    };
+
+    const family = (name: string, type: string, help: string, samples: (m: ProcedureMetrics, base: { [name: string]: string }) => string[]) => {
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+
+        metrics.forEach(m => {
+            lines.push(...samples(m, { ...labels, procedure: m.name, route: m.route, direction: m.direction }));
+        });
+    };
+
+    family('rpc_calls_total', 'counter', 'Calls that were made or handled.', (m, base) => [`rpc_calls_total${format(base)} ${m.calls}`]);
+
+    family('rpc_errors_total', 'counter', 'Calls that failed, by error code.', (m, base) => Object.keys(m.errors).map(code => (
+        `rpc_errors_total${format({ ...base, code })} ${m.errors[code]}`
+    )));
+
+    family('rpc_timeouts_total', 'counter', 'Calls that timed out.', (m, base) => [`rpc_timeouts_total${format(base)} ${m.timeouts}`]);
+    family('rpc_in_flight', 'gauge', 'Calls that have not finished yet.', (m, base) => [`rpc_in_flight${format(base)} ${m.inFlight}`]);
+    family('rpc_sent_bytes_total', 'counter', 'Length of the arguments and results that were sent.', (m, base) => [`rpc_sent_bytes_total${format(base)} ${m.bytesSent}`]);
+    family('rpc_received_bytes_total', 'counter', 'Length of the arguments and results that were received.', (m, base) => [`rpc_received_bytes_total${format(base)} ${m.bytesReceived}`]);
+
+    family('rpc_call_duration_seconds', 'histogram', 'How long calls took.', (m, base) => [
+        ...m.latency.buckets.map(bucket => (
+            `rpc_call_duration_seconds_bucket${format({ ...base, le: bucket.le === Infinity ? '+Inf' : String(bucket.le / 1000) })} ${bucket.count}`
+        )),
+        `rpc_call_duration_seconds_sum${format(base)} ${m.latency.sum / 1000}`,
+        `rpc_call_duration_seconds_count${format(base)} ${m.latency.count}`
+    ]);
+
+    return lines.join('\n') + '\n';
+}
+
+function escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,43 @@
+/**
+ * A middleware along with the procedures it applies to.
+ */
+export interface MiddlewareEntry {
+    /** Only procedures starting with this are passed through the middleware. */
+    prefix: string;
+
+    fn: Middleware;
+}
+
+/**
+ * Runs a call through a middleware stack, Koa-style. The handler runs after the last middleware calls `next()`.
+ *
+ * @param stack - the middleware to run, outermost first
+ * @param ctx - the context shared by the middleware and the handler
+ * @param handler - performs the actual call with the (possibly modified) arguments
+ * @returns The final `ctx.result`.
+ */
+export async function run(stack: MiddlewareEntry[], ctx: MiddlewareContext, handler: (args: any) => Promise<any>): Promise<any> {
+    const matching = stack.filter(entry => ctx.name.startsWith(entry.prefix));
+    let index = -1;
+
+    const dispatch = async (i: number): Promise<void> => {
+        if (i <= index) throw new Error('next() called multiple times');
+        index = i;
+
+        if (i === matching.length) {
+            try {
+                ctx.result = await handler(ctx.args);
+            } catch (err) {
+                ctx.error = err;
+                throw err;
+            }
+            return;
+        }
+
+        await matching[i].fn(ctx, () => dispatch(i + 1));
+    };
+
+    await dispatch(0);
+
+    return ctx.result;
+}
@@ -0,0 +1,2853 @@
+import * as util from './util';
+import * as schema from './schema';
+import * as compression from './compression';
+import { RpcError, ERR_PROCEDURE_ERROR } from './errors';
+import * as middleware from './middleware';
+import * as stream from './stream';
+import { createReplica, diff, Replica, StatePatch } from './state';
+import { createIdempotencyCache, Earlier, IdempotencyCache, Outcome } from './idempotency';
+import { createLimiter, Limiter } from './limits';
+import * as inspector from './inspector';
+import { createMetrics, toPrometheus } from './metrics';
+import { createLogLevels, defaultLogger } from './logger';
+import { jsonSerializer, extendedSerializer } from './serializers';
+
+
+const ERR_NOT_FOUND = 'PROCEDURE_NOT_FOUND';
+const ERR_INVALID_ARGUMENTS = 'INVALID_ARGUMENTS';
+const ERR_INVALID_RESULT = 'INVALID_RESULT';
+const ERR_PLAYER_DISCONNECTED = 'PLAYER_DISCONNECTED';
+const ERR_WEBVIEW_REMOVED = 'WEBVIEW_REMOVED';
+const ERR_INVALID_BROWSER = 'INVALID_BROWSER';
+const ERR_RATE_LIMITED = 'RATE_LIMITED';
+const ERR_INVALID_PAYLOAD = 'INVALID_PAYLOAD';
+const ERR_PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE';
+const ERR_PLAYER_NOT_FOUND = 'PLAYER_NOT_FOUND';
+const ERR_FORBIDDEN = 'FORBIDDEN';
+const ERR_TIMEOUT = 'TIMEOUT';
+const ERR_DESTROYED = 'DESTROYED';
+const ERR_IDEMPOTENCY_CONFLICT = 'IDEMPOTENCY_CONFLICT';
+
+const ERROR_MESSAGES: { [prop: string]: string } = {
+    [ERR_NOT_FOUND]: 'The procedure is not registered.',
+    [ERR_PLAYER_DISCONNECTED]: 'The player disconnected before responding.',
+    [ERR_WEBVIEW_REMOVED]: 'The webview was removed before responding.',
+    [ERR_INVALID_BROWSER]: 'The browser is not valid.',
+    [ERR_RATE_LIMITED]: 'Too many requests.',
+    [ERR_INVALID_PAYLOAD]: 'The payload could not be decoded.',
+    [ERR_PAYLOAD_TOO_LARGE]: 'The payload is too large.',
+    [ERR_PLAYER_NOT_FOUND]: 'The player is not connected.',
+    [ERR_FORBIDDEN]: 'The call is not allowed.',
+    [ERR_TIMEOUT]: 'The call timed out.',
+    [ERR_DESTROYED]: 'The RPC instance was destroyed.',
+    [ERR_IDEMPOTENCY_CONFLICT]: 'The idempotency key was already used with other arguments.',
+    ABORTED: 'The call was aborted.'
+};
+
+const PARTIAL_TIMEOUT = 10000; // default time to wait for the remaining parts of an event
+const CHUNK_SIZE = 10000; // default number of characters in each part of an event
+const COMPRESSION_THRESHOLD = 1024; // default length from which arguments are compressed
+const IDEMPOTENCY_WINDOW = 60000; // default time the outcomes of idempotent requests are kept
+const RETRY_DELAY = 200; // default time to wait before the first retry
+const RETRY_MAX_DELAY = 5000; // default longest time to wait between retries
+const METRICS_INTERVAL = 60000; // default time between metrics exports
+
+const VERSION = process.env.RPC_VERSION; // the version of this library, filled in when it's built
+
+const PROCESS_EVENT = '__rpc:process'; // main event for processing incoming procedure requests & responses
+const BROWSER_REGISTER = '__rpc:browserRegister'; // event for when a browser registers a procedure
+const BROWSER_UNREGISTER = '__rpc:browserUnregister'; // event for when a browser unregisters a procedure
+const TRIGGER_EVENT = '__rpc:triggerEvent'; // procedure for handling events
+const TRIGGER_EVENT_BROWSERS = '__rpc:triggerEventBrowsers'; // procedure for sending event to all browsers
+const CALL_PLAYER = '__rpc:callPlayer'; // procedure for relaying calls to another player through the server
+const LIST_PROCEDURES = '__rpc:listProcedures'; // procedure for listing the procedures of an environment
+const LIST_BROWSER_PROCEDURES = '__rpc:listBrowserProcedures'; // procedure for listing the procedures of all browsers
+const STATE_SUBSCRIBE = '__rpc:stateSubscribe'; // procedure for subscribing to a shared state
+const STATE_UNSUBSCRIBE = '__rpc:stateUnsubscribe'; // procedure for unsubscribing from a shared state
+const STATE_UPDATE = '__rpc:stateUpdate'; // procedure for sending the changes of a shared state to subscribers
+const HELLO = '__rpc:hello'; // procedure for announcing that we're ready
+const PING = '__rpc:ping'; // procedure for measuring the round-trip time
+const RESOURCE_EVENT = '__rpc:resource'; // event for calls between resources, followed by the name of the receiving resource
+
+/**
+ * The links that events travel over.
+ */
+type Route = 'network' | 'webView' | 'resource';
+
+enum EventType {
+    REQUEST,
+    RESPONSE_SUCCESS,
+    RESPONSE_ERROR,
+    CANCEL,
+    PROGRESS,
+    STREAM_CHUNK,
+    STREAM_END
+}
+
+// how each event type is called in the records of the inspector
+const RECORD_KINDS: RpcRecordKind[] = ['request', 'response', 'error', 'cancel', 'progress', 'chunk', 'end'];
+
+/**
+ * Represents any packet used by RPC.
+ */
+interface Event {
+    /** The unique ID of this transmission. */
+    id: string;
+
+    /** The type of this event. */
+    type: EventType;
+
+    /** The name of the procedure we are going to be calling. */
+    name?: string;
+
+    /** The real environment that sent this packet. */
+    env: string;
+
+    /** The partial number of the original event. */
+    part: number;
+
+    /** The total number of event partials. */
+    total: number;
+
+    /** Stringified args partial. */
+    args?: string;
+
+    /** The serializer the args were stringified with. JSON if not set. */
+    ser?: string;
+
+    /** If set, the args are compressed. */
+    zip?: 1;
+
+    /** If set, the caller wants progress updates. */
+    prog?: 1;
+
+    /** If set, the result is a stream whose chunks follow in their own events, until a `STREAM_END`. */
+    stream?: 1;
+
+    /** If set, we shouldn't return anything. */
+    noRet?: 1;
+
+    /** Environment override. Used for cef <-> server. */
+    fenv?: string;
+
+    /** The entity ID of the player that a relayed call came from. Only trusted from the server. */
+    orig?: number;
+
+    /** Identifies a call across its retries, so the receiver runs it only once. */
+    idem?: string;
+
+    /** The resource that sent this packet, so it can be answered. Only used between resources. */
+    res?: string;
+}
+
+/**
+ * Identifies the other side of a transmission.
+ */
+interface Peer {
+    /** The player on the other side, only on server environment. */
+    player?: any;
+
+    /** The webview on the other side, only on client environment. */
+    webView?: any;
+
+    /** The resource on the other side, for calls between resources. */
+    resource?: string;
+}
+
+/**
+ * Packets waiting to be sent to the same target together.
+ */
+interface Outbox {
+    /** Sends one packet, or an array of them. */
+    emit: (data: Event | Event[]) => void;
+
+    /** The packets, in order. */
+    events: Event[];
+
+    /** The length of the args of the packets. */
+    size: number;
+}
+
+/**
+ * Represents a request that is pending a response.
+ */
+interface Pending extends Peer {
+    /** The name of the procedure we called. */
+    name: string;
+
+    /** The resolve function for the promise. */
+    resolve: Function;
+
+    /** Tells the other side that we're no longer interested. */
+    cancel: (reason: string) => void;
+
+    /** Receives progress updates. */
+    onProgress?: (value: any) => void;
+
+    /** The signal of the call, which also cancels a streamed result. */
+    signal?: RpcAbortSignal;
+}
+
+/**
+ * Represents a streamed result that is still coming in.
+ */
+interface Streaming extends Pending {
+    /** Where the chunks go. */
+    sink: stream.StreamSink;
+}
+
+/**
+ * Represents an incoming request whose procedure is still running.
+ */
+interface Running extends Peer {
+    /** Aborts the signal given to the procedure. */
+    abort: (reason?: any) => void;
+}
+
+/**
+ * Represents an ongoing incoming RPC call.
+ */
+interface Incoming extends Peer {
+    /** The stringified arguments that we have received so far. */
+    args?: string;
+
+    /** The number of parts we've received. */
+    recv: number;
+
+    /** The total number of parts we're expecting. */
+    total: number;
+
+    /** When we received the last part. */
+    time: number;
+
+    /** Set if the event broke a limit. Its arguments are discarded. */
+    limited?: LimitReason;
+
+    /** Set if the event is larger than we accept. Its arguments are discarded. */
+    tooLarge?: boolean;
+
+    /** Set if the event came in parts and counts against the limits of the player until it's complete. */
+    partial?: boolean;
+}
+
+/**
+ * A shared state, as held by the server.
+ */
+interface StateEntry {
+    value: any;
+
+    /** Counts the changes, so subscribers notice if they missed one. */
+    version: number;
+
+    /** Set on a state scoped to a player until it gets its first value. The player follows the shared state until then. */
+    pending?: boolean;
+}
+
+/**
+ * A shared state this client or browser subscribed to.
+ */
+interface Subscription {
+    replica: Replica;
+    listeners: ((value: any) => void)[];
+
+    /** The browsers that subscribed through this client. */
+    browsers: any[];
+
+    /** Settles once the latest snapshot was requested and received. */
+    ready: Promise<void>;
+}
+
+/**
+ * An instance that takes calls from other resources.
+ */
+interface Exporter {
+    /** Whether the instance registered a procedure as public. */
+    exports(name: string): boolean;
+}
+
+const rpcExporters: { [resource: string]: Exporter[] } = {}; // instances that take calls from other resources, by resource, in the order they were initialized
+
+let createDefaultTransport: () => RpcTransport; // used by instances that weren't given a transport
+
+/**
+ * Sets the transport instances use when they weren't given one. The full build sets it to the alt:V transport,
+ * the core build leaves it empty, so it can run without alt:V.
+ */
+export function setDefaultTransport(factory: () => RpcTransport) {
+    createDefaultTransport = factory;
+}
+
+/**
+ * Creates an RPC instance with its own procedures, calls and options. If a namespace is given, it's initialized right away,
+ * otherwise `init` has to be called before it can be used.
+ */
+export function createRpc(options: RpcOptions = {}) {
+    const rpcListeners: { [prop: string]: Function } = {}; // keeps track of procedure listeners
+    const rpcListenerOptions: { [prop: string]: RegisterOptions } = {}; // keeps track of the options procedures were registered with
+    const rpcPending: { [prop: string]: Pending } = {}; // keeps track of called procedures that are waiting on results
+    const rpcIncoming: { [prop: string]: Incoming } = {}; // keeps track of incoming packets that might have multiple parts
+    const rpcRunning: { [prop: string]: Running } = {}; // keeps track of incoming requests that can still be cancelled
+    const rpcStreams: { [prop: string]: Streaming } = {}; // keeps track of streamed results that are still coming in
+    const rpcOutboxes: Map<any, Outbox> = new Map(); // packets that are waiting to be sent, by target
+    const rpcEvListeners: { [prop: string]: Set<Function> } = {}; // keeps track of event listeners
+    const rpcMiddleware: middleware.MiddlewareEntry[] = []; // middleware that calls pass through, outermost first
+    const rpcBrowsers: any[] = []; // list of all registered webviews
+    const rpcBrowserProcedures: { [prop: string]: any[] } = {}; // which webviews are registered to which procedures, in the order they registered
+    const rpcBrowserIds: Map<any, string> = new Map(); // the IDs webviews were added with
+    const rpcBrowserCleanups: Map<any, () => void> = new Map(); // unbinds the handlers of each registered webview
+    const rpcUnbinds: (() => void)[] = []; // unbinds the handlers init() added to the transport
+    const rpcStates: { [prop: string]: StateEntry } = {}; // shared states, only on server environment
+    const rpcPlayerStates: Map<any, { [prop: string]: StateEntry }> = new Map(); // shared states scoped to a player, only on server environment
+    const rpcStateSubscribers: { [prop: string]: any[] } = {}; // which players subscribed to which shared states, only on server environment
+    const rpcSubscriptions: { [prop: string]: Subscription } = {}; // shared states this client or browser subscribed to
+    const rpcPeers: Map<any, PeerInfo> = new Map(); // peers that announced they're ready, by player, webview, 'server' or 'client'
+    const rpcPeerWaiters: Map<any, { resolve: (info: PeerInfo) => void, reject: (err: any) => void }[]> = new Map(); // who waits for which peer to be ready
+    const rpcMetrics = createMetrics(); // counts the calls we make and handle
+    const rpcSerializers: { [prop: string]: RpcSerializer } = { // formats we can decode
+        [jsonSerializer.name]: jsonSerializer,
+        [extendedSerializer.name]: extendedSerializer
+    };
+
+    let rpcNamespace = '';
+    let rpcDestroyed = false;
+    let rpcPartialTimeout = PARTIAL_TIMEOUT;
+    let rpcChunkSizes: { [route in Route]: number } = { network: CHUNK_SIZE, webView: CHUNK_SIZE, resource: CHUNK_SIZE };
+    let rpcCompressionThreshold: number; // compression is off if not set
+    let rpcMaxEventSize: number; // unlimited if not set
+    let rpcMaxPayloadSize: number; // the payload limit of players, unlimited if not set
+    let rpcAutoBatch = false; // whether packets are always batched until the end of the current task
+    let rpcWaitForReady = false; // whether calls wait until the peer announced it's ready
+    let rpcBatchDepth = 0; // how many batch() calls we're in
+    let rpcFlushScheduled = false;
+    let rpcReaper: any; // timer for expiring stale incoming partials
+    let rpcLimiter: Limiter; // enforces rate limits on players, only on server environment
+    let rpcOutcomes: IdempotencyCache; // outcomes of idempotent requests, by peer
+    let rpcInspector: inspector.Inspector; // records the events we send and receive, if enabled
+    let rpcMetricsTimer: any; // exports the metrics periodically, if enabled
+    let rpcLogger: RpcLogger = defaultLogger; // where log messages go
+    const rpcLogLevels = createLogLevels(process.env.NODE_ENV !== 'production' ? 'debug' : 'warn'); // which messages of this instance are logged, by namespace
+    let rpcLimitCallback: RateLimitOptions['onLimit'];
+    let rpcRelay: RelayOptions; // which calls players may relay to each other, only on server environment
+    let rpcTransport: RpcTransport; // how we reach other environments
+    let rpcSerializer = jsonSerializer; // how we encode what we send
+    let environment = '';
+
+    /**
+     * Initializes RPC with a given namespace. Must be unique across all resources.
+     */
+    function init(namespace: string, options: InitOptions = {}) {
+        if (rpcDestroyed) throw 'This RPC instance was destroyed.';
+        if (rpcNamespace) throw 'Already initialized.';
+        if (!namespace) throw 'Must specify a namespace.';
+
+        if (options.transport) useTransport(options.transport);
+        else requireTransport();
+
+        if (options.serializer) {
+            const serializer = typeof options.serializer === 'string' ? rpcSerializers[options.serializer] : options.serializer;
+            if (!serializer) throw `Unknown serializer "${options.serializer}".`;
+
+            rpcSerializers[serializer.name] = serializer;
+            rpcSerializer = serializer;
+        }
+
+        if (!rpcTransport.requestNamespace(namespace)) throw `Namespace "${namespace}" is already in use.`;
+
+        if (options.logger) rpcLogger = options.logger;
+        if (options.logLevel) rpcLogLevels.set(options.logLevel, namespace);
+
+        rpcNamespace = namespace;
+
+        log('info', `Initialized with namespace "${namespace}"`);
+        if (typeof options.partialTimeout === 'number') rpcPartialTimeout = options.partialTimeout;
+        if (typeof options.maxEventSize === 'number') rpcMaxEventSize = options.maxEventSize;
+        if (options.chunkSize) rpcChunkSizes = { ...rpcChunkSizes, ...options.chunkSize };
+
+        rpcOutcomes = createIdempotencyCache(typeof options.idempotencyWindow === 'number' ? options.idempotencyWindow : IDEMPOTENCY_WINDOW);
+
+        if (options.inspector) rpcInspector = inspector.createInspector(options.inspector === true ? {} : options.inspector);
+        if (options.metrics && options.metrics.onExport) scheduleMetricsExport(options.metrics);
+
+        if (options.batching) rpcAutoBatch = true;
+        if (options.waitForReady) rpcWaitForReady = true;
+
+        if (options.compression) {
+            const threshold = typeof options.compression === 'object' ? options.compression.threshold : undefined;
+            rpcCompressionThreshold = typeof threshold === 'number' ? threshold : COMPRESSION_THRESHOLD;
+        }
+
+        const processEventName = getEventName(PROCESS_EVENT);
+        const triggerEventName = getEventName(TRIGGER_EVENT);
+
+        const transport = rpcTransport;
+
+        transport.on(processEventName, receive);
+        rpcUnbinds.push(() => transport.off && transport.off(processEventName, receive));
+
+        if (environment === 'server') {
+            const onClient = (player: any, data: any) => receive(data, player);
+            const onPlayerDisconnect = (player: any) => {
+                if (rpcLimiter) rpcLimiter.forget(player);
+                dropPeer({ player }, ERR_PLAYER_DISCONNECTED);
+                forgetStatesOf(player);
+            };
+
+            transport.onClient(processEventName, onClient);
+            transport.onPlayerDisconnect(onPlayerDisconnect);
+
+            rpcUnbinds.push(() => {
+                if (transport.offClient) transport.offClient(processEventName, onClient);
+                if (transport.offPlayerDisconnect) transport.offPlayerDisconnect(onPlayerDisconnect);
+            });
+
+            if (options.rateLimit) {
+                rpcLimiter = createLimiter(options.rateLimit);
+                rpcMaxPayloadSize = options.rateLimit.maxPayloadSize;
+                rpcLimitCallback = options.rateLimit.onLimit;
+            }
+
+            rpcRelay = options.relay;
+
+            // relays calls from one player to another, if allowed
+            register(CALL_PLAYER, ([target, name, args, browsers, noRet, isEvent], info) => relayToPlayer(target, name, args, !!browsers, !!noRet, !!isEvent, info));
+
+            register(STATE_SUBSCRIBE, ([name], info) => subscribePlayer(name, info.player));
+            register(STATE_UNSUBSCRIBE, ([name], info) => unsubscribePlayer(name, info.player));
+        }
+
+        if (environment === 'client') {
+            transport.onServer(processEventName, receive);
+            rpcUnbinds.push(() => transport.offServer && transport.offServer(processEventName, receive));
+
+            // set up internal pass-through events
+            register('__rpc:callServer', ([name, args, noRet], info) => _callServer(name, args, { fenv: info.environment, noRet }, { signal: info.signal, onProgress: info.progress }), { allow: ['cef'] });
+            register('__rpc:callBrowsers', ([name, args, noRet, browsers, browserId], info) => _callBrowsers(null, name, args, { fenv: info.environment, noRet, orig: info.originId }, { signal: info.signal, onProgress: info.progress, browsers, browserId }));
+
+            // send an event to all browsers
+            register(getEventName(TRIGGER_EVENT_BROWSERS), ([name, args], info) => {
+                rpcBrowsers.forEach(browser => {
+                    _callBrowser(browser, triggerEventName, [name, args], { fenv: info.environment, noRet: 1, orig: info.originId });
+                });
+            });
+
+            register(LIST_BROWSER_PROCEDURES, (_, info) => listBrowserProcedures(info.signal));
+
+            // browsers subscribe to shared states through us
+            register(STATE_SUBSCRIBE, ([name], info) => subscribeBrowser(name, info.browser), { allow: ['cef'] });
+            register(STATE_UNSUBSCRIBE, ([name], info) => unsubscribeBrowser(name, info.browser), { allow: ['cef'] });
+        }
+
+        if (environment !== 'cef' && transport.resource) {
+            // other resources on this side call us over the local bus
+            const resourceEventName = `${RESOURCE_EVENT}::${transport.resource}`;
+            const exporter: Exporter = { exports: name => !!rpcListeners[name] && !!(rpcListenerOptions[name] || {}).public };
+            const exporters = rpcExporters[transport.resource] = rpcExporters[transport.resource] || [];
+            const onResource = (data: Event | Event[]) => receiveFromResource(data, exporter, exporters);
+
+            exporters.push(exporter);
+            transport.on(resourceEventName, onResource);
+
+            rpcUnbinds.push(() => {
+                exporters.splice(exporters.indexOf(exporter), 1);
+                if (transport.off) transport.off(resourceEventName, onResource);
+            });
+        }
+
+        if (environment !== 'server') {
+            // only the server changes shared states. Browsers get its updates through the client
+            register(STATE_UPDATE, ([name, version, patches, reset]) => receiveStateUpdate(name, version, patches, !!reset), {
+                allow: [environment === 'client' ? 'server' : 'client']
+            });
+        }
+
+        // built-in procedure for calling events
+        register(triggerEventName, ([name, args], info) => callEvent(name, args, info));
+
+        // built-in procedure for introspection
+        register(LIST_PROCEDURES, (_, info) => listProcedures().filter(procedure => !getAccessError(procedure.name, info)));
+
+        // handshake, so both sides know when they can talk to each other
+        register(HELLO, ([peer, reply], info) => {
+            const key = environment === 'server' ? info.player : environment === 'client' ? (info.browser || 'server') : 'client';
+
+            if (peer.version !== VERSION) log('warn', `The ${info.environment} uses version ${peer.version} while we use ${VERSION}`, { player: getPlayerId(info.player) });
+
+            markReady(key, { environment: info.environment, version: peer.version, namespace: peer.namespace });
+            if (!reply) sayHello(key, true);
+        });
+
+        register(PING, () => undefined);
+
+        switch (environment) {
+            case 'server':
+                // players that were already connected, e.g. if this resource was restarted
+                rpcTransport.getPlayers().forEach(player => sayHello(player));
+                break;
+            case 'client':
+                sayHello('server');
+                break;
+            case 'cef':
+                // procedures registered before init() couldn't be announced without a namespace
+                Object.keys(rpcListeners).forEach(name => {
+                    if (rpcListeners[name] && !name.startsWith('__rpc:')) rpcTransport.emit(getEventName(BROWSER_REGISTER), name);
+                });
+
+                // procedures registered right after init() should be known once we're ready
+                Promise.resolve().then(() => sayHello('client'));
+                break;
+        }
+    }
+
+    function getEventName(prefix: string) {
+        return `${prefix}::${rpcNamespace}`;
+    }
+
+    /**
+     * Makes sure nothing is added to an instance whose handlers and namespace are gone.
+     */
+    function requireAlive() {
+        if (rpcDestroyed) throw 'This RPC instance was destroyed.';
+    }
+
+    function requireNamespace() {
+        requireAlive();
+        if (!rpcNamespace) throw new Error(`You must first call rpc.init() with a namespace.`);
+    }
+
+    function useTransport(transport: RpcTransport) {
+        rpcTransport = transport;
+        environment = transport.environment;
+    }
+
+    /**
+     * Falls back to the alt:V transport if RPC is used before being initialized.
+     */
+    function requireTransport() {
+        requireAlive();
+        if (rpcTransport) return;
+        if (!createDefaultTransport) throw 'No transport was given, and this build has no default one. Pass a transport to createRpc or init.';
+
+        useTransport(createDefaultTransport());
+    }
+
+    /**
+     * Passes a message to the logger, if its level is logged for our namespace.
+     */
+    function log(level: LogLevel, message: string, fields: Partial<LogFields> = {}) {
+        if (!rpcLogLevels.enabled(level, rpcNamespace)) return;
+
+        rpcLogger[level as Exclude<LogLevel, 'silent'>](message, { environment, namespace: rpcNamespace, ...fields });
+    }
+
+    function getPlayerId(player: any): number | undefined {
+        return player && rpcTransport.encodeEntity ? rpcTransport.encodeEntity(player) : undefined;
+    }
+
+    function createError(code: string, procedure?: string, message?: string, details?: any) {
+        return new RpcError(code, message || ERROR_MESSAGES[code], { environment, procedure, details });
+    }
+
+    /**
+     * Makes errors raised while relaying a call through a pass-through procedure name the relayed procedure instead.
+     * The call is counted in the metrics under that name too, since the pass-through itself isn't.
+     */
+    function relay(name: string, promise: Promise<any>, awaited = true): Promise<any> {
+        const finish = countCall('outgoing', name, environment === 'cef' ? 'webView' : 'network', awaited);
+
+        return promise.then(res => {
+            finish();
+            return res;
+        }, err => {
+            if (err instanceof RpcError && err.procedure && err.procedure.startsWith('__rpc:')) err.procedure = name;
+
+            finish(err instanceof RpcError ? err.code : ERR_PROCEDURE_ERROR);
+            throw err;
+        });
+    }
+
+    /**
+     * Rejects, aborts and forgets everything in flight with a peer that went away, or with everyone if no peer is given.
+     */
+    function dropPeer(peer: Peer | undefined, reason: string) {
+        const matches = (entry: Peer) => !peer || (peer.player ? entry.player === peer.player : entry.webView === peer.webView);
+
+        Object.keys(rpcPending).forEach(id => {
+            const pending = rpcPending[id];
+            if (!matches(pending)) return;
+
+            delete rpcPending[id];
+            pending.resolve(Promise.reject(createError(reason, pending.name)));
+        });
+
+        Object.keys(rpcStreams).forEach(id => {
+            const streaming = rpcStreams[id];
+            if (!matches(streaming)) return;
+
+            delete rpcStreams[id];
+            streaming.sink.fail(createError(reason, streaming.name));
+        });
+
+        Object.keys(rpcRunning).forEach(id => {
+            const running = rpcRunning[id];
+            if (!matches(running)) return;
+
+            delete rpcRunning[id];
+            running.abort(reason);
+        });
+
+        Object.keys(rpcIncoming).forEach(id => {
+            if (matches(rpcIncoming[id])) forgetIncoming(id);
+        });
+
+        if (!peer) return;
+
+        rpcOutcomes.forget(peer.player || peer.webView);
+        forgetPeer(peer.player || peer.webView, reason);
+    }
+
+    function onLimited(player: any, reason: LimitReason, procedure?: string) {
+        log('warn', `Player broke the "${reason}" limit${procedure ? ` calling "${procedure}"` : ''}`, { procedure, player: getPlayerId(player) });
+        if (rpcLimitCallback) rpcLimitCallback(player, reason, procedure);
+    }
+
+    /**
+     * Forgets an incoming event, which no longer counts against the limits of the player if it came in parts.
+     */
+    function forgetIncoming(id: string) {
+        const incoming = rpcIncoming[id];
+        delete rpcIncoming[id];
+
+        if (incoming.partial && rpcLimiter) rpcLimiter.closePartial(incoming.player);
+    }
+
+    /**
+     * Periodically expires incoming partials whose remaining parts never arrived.
+     */
+    function scheduleReaper() {
+        if (rpcReaper) return;
+
+        rpcReaper = util.setTimeout(() => {
+            rpcReaper = undefined;
+
+            const now = Date.now();
+            const ids = Object.keys(rpcIncoming);
+
+            ids.forEach(id => {
+                if (now - rpcIncoming[id].time >= rpcPartialTimeout) {
+                    log('debug', `Expired incomplete event: ${id}`, { id });
+                    forgetIncoming(id);
+                }
+            });
+
+            if (Object.keys(rpcIncoming).length) scheduleReaper();
+        }, rpcPartialTimeout);
+    }
+
+    /**
+     * Periodically hands a snapshot of the metrics to the exporter.
+     */
+    function scheduleMetricsExport(options: MetricsOptions) {
+        if (rpcMetricsTimer) util.clearTimeout(rpcMetricsTimer);
+
+        rpcMetricsTimer = util.setTimeout(() => {
+            scheduleMetricsExport(options);
+            options.onExport(exportMetrics(), getMetrics());
+        }, typeof options.interval === 'number' ? options.interval : METRICS_INTERVAL);
+    }
+
+    /**
+     * Processes an incoming packet, which is either a single event or a batch of them.
+     */
+    function receive(data: Event | Event[], player?: any, webView?: any, resource?: string) {
+        if (!Array.isArray(data)) return processEvent(data, player, webView, resource);
+
+        // whatever the batch makes us send right away, such as relayed calls, is sent together too
+        batch(() => data.forEach(event => processEvent(event, player, webView, resource, true)));
+    }
+
+    /**
+     * Processes a packet from another resource. Every instance in this resource hears it, so each one only takes
+     * requests for the procedures it made public and the responses to its own calls. Requests that no instance takes
+     * are answered by the one that was initialized first, so the caller learns that the procedure isn't there.
+     */
+    function receiveFromResource(data: Event | Event[], exporter: Exporter, exporters: Exporter[]) {
+        const events = (Array.isArray(data) ? data : [data]).filter(event => {
+            if (typeof event.res !== 'string') return false;
+
+            switch (event.type) {
+                case EventType.REQUEST:
+                    return (exporters.find(other => other.exports(event.name)) || exporters[0]) === exporter;
+                case EventType.CANCEL:
+                    return !!rpcRunning[event.id];
+                default:
+                    return !!(rpcPending[event.id] || rpcStreams[event.id]);
+            }
+        });
+
+        // a batch always comes from a single resource
+        if (events.length) receive(events.length === 1 ? events[0] : events, undefined, undefined, events[0].res);
+    }
+
+    /**
+     * Processes an incoming event.
+     *
+     * @param event - the event
+     * @param player - whoever sent us the event, only on server environment
+     * @param webView - the webview that sent us the event, only on client environment
+     * @param resource - the resource that sent us the event, if it came from another resource
+     * @param batched - whether the event came in a batch, in which case responses are batched too
+     */
+    function processEvent(event: Event, player?: any, webView?: any, resource?: string, batched = false) {
+        log('debug', `Processing Event: ${event.id} (${event.part}/${event.total})${player ? ' from player' : ''}${webView ? ' from cef' : ''}${resource ? ` from resource "${resource}"` : ''}`, {
+            id: event.id,
+            procedure: event.name,
+            player: getPlayerId(player)
+        });
+
+        let incoming = rpcIncoming[event.id];
+
+        if (!incoming) {
+            // players can't make us hold on to more unfinished events than their limits allow, unless they're answers we wait for
+            const awaited = event.type !== EventType.REQUEST && (rpcPending[event.id] || rpcStreams[event.id]);
+            let partial = false;
+
+            if (rpcLimiter && player && event.total > 1 && !awaited) {
+                // the rest of an event that was refused or expired
+                if (event.part !== 1) return;
+
+                const limited = rpcLimiter.openPartial(player);
+
+                if (limited) {
+                    log('debug', `Discarded an incomplete event: ${event.id}`, { id: event.id, procedure: event.name, player: getPlayerId(player) });
+                    onLimited(player, limited, event.name);
+                    return;
+                }
+
+                partial = true;
+            }
+
+            // keep track of incoming partials
+            incoming = {
+                recv: 0,
+                total: event.total,
+                time: 0,
+                player,
+                webView,
+                resource,
+                partial
+            };
+        }
+
+        if (typeof event.args !== 'undefined' && !incoming.limited && !incoming.tooLarge) {
+            // add any args to our builder
+            if (!incoming.args) incoming.args = '';
+            incoming.args += event.args;
+
+            if (rpcMaxEventSize && incoming.args.length > rpcMaxEventSize) {
+                incoming.tooLarge = true;
+                incoming.args = undefined;
+            }
+        }
+        incoming.recv++;
+        incoming.time = Date.now();
+
+        if (rpcLimiter && player && !incoming.limited) {
+            incoming.limited = rpcLimiter.checkPacket(incoming.total, incoming.args);
+
+            // don't hold on to anything that is too large
+            if (incoming.limited) incoming.args = undefined;
+        }
+
+        rpcIncoming[event.id] = incoming;
+
+        // only process the event if we've received it all
+        if (incoming.recv < incoming.total) {
+            scheduleReaper();
+            return;
+        }
+
+        forgetIncoming(event.id);
+
+        log('debug', `Stringified Args: ${incoming.args}`, { id: event.id });
+
+        const arrival: Route = resource ? 'resource' : webView || environment === 'cef' ? 'webView' : 'network';
+        const size = incoming.args ? incoming.args.length : 0;
+
+        if (rpcInspector) {
+            const source = resource || player || webView || (environment === 'cef' ? 'client' : 'server');
+            const whole = { ...event, part: incoming.total, total: incoming.total, args: incoming.args };
+
+            inspect('in', whole, source, arrival);
+        }
+
+        const serializer = rpcSerializers[event.ser || jsonSerializer.name];
+
+        // answer in whatever format we were spoken to, or JSON if we don't understand it
+        const replySerializer = serializer || jsonSerializer;
+
+        let args: any;
+        let invalid: RpcError;
+
+        if (incoming.tooLarge) {
+            log('warn', `Discarded an event that is too large: ${event.id}`, { id: event.id, procedure: event.name, player: getPlayerId(player) });
+            invalid = createError(ERR_PAYLOAD_TOO_LARGE, event.name);
+        } else if (typeof incoming.args !== 'undefined') {
+            try {
+                if (!serializer) throw new Error(`Unknown serializer "${event.ser}"`);
+
+                // what a player sends can't grow past their payload limit by being decompressed either
+                const maxEventSize = rpcMaxEventSize || Infinity;
+                const maxPayloadSize = player && typeof rpcMaxPayloadSize === 'number' ? rpcMaxPayloadSize : Infinity;
+                const data = event.zip ? compression.decompress(incoming.args, Math.min(maxEventSize, maxPayloadSize)) : incoming.args;
+
+                if (typeof data === 'undefined') {
+                    if (maxPayloadSize < maxEventSize) incoming.limited = 'payload';
+                    else invalid = createError(ERR_PAYLOAD_TOO_LARGE, event.name);
+                } else {
+                    args = serializer.deserialize(data, rpcTransport);
+                }
+            } catch (e) {
+                const fields = { id: event.id, procedure: event.name, player: getPlayerId(player) };
+
+                log('warn', `Failed to parse event arguments: ${e && e.message}`, fields);
+                log('warn', incoming.args, fields);
+                invalid = createError(ERR_INVALID_PAYLOAD, event.name, undefined, { reason: e && e.message });
+            }
+        }
+
+        const processEventName = getEventName(PROCESS_EVENT);
+
+        if (event.type === EventType.REQUEST) {
+            const controller = util.createAbortController();
+
+            const info: ProcedureListenerInfo = {
+                id: event.id,
+                environment: resource ? environment : getCallerEnvironment(event, webView),
+                player,
+                browser: webView,
+                signal: controller.signal
+            };
+
+            if (resource) info.resource = resource;
+
+            // only the server can vouch for a call coming from another player
+            if (typeof event.orig === 'number' && !resource && (environment === 'cef' || (environment === 'client' && !webView))) {
+                info.originId = event.orig;
+                if (rpcTransport.decodeEntity) info.origin = rpcTransport.decodeEntity(event.orig);
+            }
+
+            let ret: (event: Event) => void;
+            let route: Route = 'network';
+
+            if (resource) {
+                // send an event back to the calling resource
+                route = 'resource';
+                ret = channel(resource, route, data => emitResource(resource, data), batched);
+            } else {
+                switch(environment) {
+                    case 'server':
+                        // send an event back to the sender
+                        ret = channel(player, route, data => rpcTransport.emitClient(player, processEventName, data), batched);
+                        break;
+                    case 'client': {
+                        if (!webView) {
+                            // send an event back to the server
+                            ret = channel('server', route, data => rpcTransport.emitServer(processEventName, data), batched);
+                        } else {
+                            route = 'webView';
+
+                            // send an event back to calling webview
+                            ret = channel(webView, route, data => webView && webView.valid && rpcTransport.emitWebView(webView, processEventName, data), batched);
+                        }
+                        break;
+                    }
+                    case 'cef': {
+                        // send an event back to the client
+                        route = 'webView';
+                        ret = channel('client', route, data => rpcTransport.emit(processEventName, data), batched);
+                    }
+                }
+            }
+
+            const limited = incoming.limited || (!invalid && rpcLimiter && player ? rpcLimiter.acquire(player, event.name, incoming.partial) : undefined);
+            if (limited) onLimited(player, limited, event.name);
+
+            const refusal = limited ? createError(ERR_RATE_LIMITED, event.name, undefined, { reason: limited }) : invalid;
+
+            if (ret && refusal) {
+                if (!event.noRet) {
+                    sendEvent({
+                        type: EventType.RESPONSE_ERROR,
+                        id: event.id,
+                        env: environment
+                    }, refusal.toJSON(), ret, route, replySerializer);
+                }
+            } else if (ret) {
+                const reply = (type: EventType, resArgs?: any, extraData: Partial<Event> = {}) => {
+                    const sent = sendEvent({
+                        type,
+                        id: event.id,
+                        env: environment,
+                        ...extraData
+                    }, resArgs, ret, route, replySerializer);
+
+                    countTransfer('incoming', event.name, route, sent, 0);
+                };
+
+                const peerKey = player || webView || resource;
+
+                const run = () => {
+                    const remember = event.idem ? rpcOutcomes.add(peerKey, event.name, event.idem, incoming.args) : undefined;
+                    const settle = (outcome?: Outcome) => remember && remember(outcome);
+                    const finish = countCall('incoming', event.name, route, true);
+
+                    rpcRunning[event.id] = {
+                        player,
+                        webView,
+                        resource,
+                        abort: controller.abort
+                    };
+
+                    // nobody is waiting for the result of a cancelled request
+                    const unwanted = () => event.noRet || controller.signal.aborted;
+
+                    info.progress = value => {
+                        if (event.prog && rpcRunning[event.id] && !unwanted()) reply(EventType.PROGRESS, value);
+                    };
+
+                    runIncoming(event.name, args, info).then(res => {
+                        const streamed = stream.isAsyncIterable(res);
+
+                        finish();
+
+                        // a cancelled procedure might not have finished its job, and a stream can't be sent twice
+                        settle(controller.signal.aborted || streamed ? undefined : { value: res });
+
+                        if (unwanted()) return;
+                        if (!streamed) return reply(EventType.RESPONSE_SUCCESS, res);
+
+                        // the caller gets its stream right away and the chunks follow as they come
+                        reply(EventType.RESPONSE_SUCCESS, undefined, { stream: 1 });
+
+                        return stream.pipe(res, controller.signal, chunk => reply(EventType.STREAM_CHUNK, chunk)).then(() => {
+                            if (!controller.signal.aborted) reply(EventType.STREAM_END);
+                        });
+                    }).catch(err => {
+                        const error = RpcError.from(err, { environment, procedure: event.name });
+
+                        settle();
+                        finish(error.code);
+
+                        if (unwanted()) return;
+                        reply(EventType.RESPONSE_ERROR, error.toJSON());
+                    }).finally(() => {
+                        delete rpcRunning[event.id];
+                        if (rpcLimiter && player) rpcLimiter.release(player);
+                    });
+                };
+
+                // a retry of a request that already succeeded, or is still running, gets the same answer instead of running again
+                const answer = (earlier?: Earlier) => {
+                    if (!earlier) return run();
+
+                    // a key reused for other arguments would get the answer to a different question
+                    if (earlier.args !== incoming.args) {
+                        if (!event.noRet) reply(EventType.RESPONSE_ERROR, createError(ERR_IDEMPOTENCY_CONFLICT, event.name).toJSON());
+                        if (rpcLimiter && player) rpcLimiter.release(player);
+                        return;
+                    }
+
+                    earlier.outcome.then(outcome => {
+                        if (!outcome) return answer(rpcOutcomes.get(peerKey, event.name, event.idem));
+
+                        if (!event.noRet) reply(EventType.RESPONSE_SUCCESS, outcome.value);
+                        if (rpcLimiter && player) rpcLimiter.release(player);
+                    });
+                };
+
+                countTransfer('incoming', event.name, route, 0, size);
+                answer(event.idem ? rpcOutcomes.get(peerKey, event.name, event.idem) : undefined);
+            }
+        } else if (event.type === EventType.CANCEL) { // the caller is no longer interested in a request
+            const running = rpcRunning[event.id];
+
+            // make sure the cancellation comes from whoever sent the request
+            if (running && running.player === player && running.webView === webView && running.resource === resource) {
+                delete rpcRunning[event.id];
+                running.abort(args);
+            }
+        } else { // a previously called remote procedure has responded
+            const info = rpcPending[event.id] || rpcStreams[event.id];
+
+            // make sure we are receiving the answer from the right player
+            if (!info || (environment === 'server' && info.player !== player) || info.resource !== resource) return;
+
+            countTransfer('outgoing', info.name, arrival, 0, size);
+
+            let failure: RpcError;
+
+            if (incoming.limited) {
+                onLimited(player, incoming.limited, info.name);
+                failure = createError(ERR_RATE_LIMITED, info.name, 'The response was too large.', { reason: incoming.limited });
+            } else if (invalid) {
+                invalid.procedure = info.name;
+                failure = invalid;
+            } else if (event.type === EventType.RESPONSE_ERROR) {
+                failure = RpcError.from(args, { procedure: info.name });
+            }
+
+            if (event.type === EventType.PROGRESS) {
+                // a broken progress update isn't worth failing the call over
+                if (!failure && info.onProgress) info.onProgress(args);
+                return;
+            }
+
+            const streaming = rpcStreams[event.id];
+
+            if (streaming) {
+                if (failure) {
+                    delete rpcStreams[event.id];
+                    streaming.sink.fail(failure);
+
+                    // the procedure is still sending chunks we can't use
+                    if (event.type === EventType.STREAM_CHUNK) streaming.cancel('ABORTED');
+                } else if (event.type === EventType.STREAM_CHUNK) {
+                    streaming.sink.push(args);
+                } else {
+                    delete rpcStreams[event.id];
+                    streaming.sink.end();
+                }
+                return;
+            }
+
+            delete rpcPending[event.id];
+
+            if (failure) info.resolve(Promise.reject(failure));
+            else if (event.stream) info.resolve(openStream(event.id, info));
+            else info.resolve(args);
+        }
+    }
+
+    /**
+     * Starts receiving a streamed result. Stopping early or aborting the call's signal cancels the remote procedure.
+     */
+    function openStream(id: string, pending: Pending): RpcStream {
+        const close = () => {
+            if (!rpcStreams[id]) return false;
+
+            delete rpcStreams[id];
+            pending.cancel('ABORTED');
+            return true;
+        };
+
+        const sink = stream.createStream(close);
+
+        rpcStreams[id] = {
+            ...pending,
+            sink
+        };
+
+        if (pending.signal) {
+            pending.signal.addEventListener('abort', () => {
+                if (close()) sink.fail(createError('ABORTED', pending.name));
+            });
+        }
+
+        return sink.stream;
+    }
+
+    /**
+     * Calls a procedure for a remote caller, through the middleware.
+     */
+    function runIncoming(name: string, args: any, info: ProcedureListenerInfo): Promise<any> {
+        const denied = getAccessError(name, info);
+
+        if (denied) {
+            if (denied.code === ERR_FORBIDDEN) log('warn', `Refused a call to "${name}" from the ${info.environment}`, { procedure: name, id: info.id, player: getPlayerId(info.player) });
+            return Promise.reject(denied);
+        }
+
+        // internal procedures such as pass-throughs aren't a concern of the middleware
+        if (name.startsWith('__rpc:')) return callProcedure(name, args, info);
+
+        return middleware.run(rpcMiddleware, {
+            name,
+            args,
+            info,
+            direction: 'incoming'
+        }, args => callProcedure(name, args, info));
+    }
+
+    /**
+     * Works out which environment sent a request. Relayed requests carry the environment they came from,
+     * which is only believed where it could have been relayed: a client only relays for its browsers,
+     * and browsers don't relay at all.
+     */
+    function getCallerEnvironment(event: Event, webView: any): string {
+        switch (environment) {
+            case 'server':
+                return event.fenv === 'cef' ? 'cef' : 'client';
+            case 'client':
+                return webView ? 'cef' : (event.fenv || 'server');
+            case 'cef':
+                return event.fenv || 'client';
+        }
+    }
+
+    /**
+     * Checks whether a remote caller may call a procedure. Internal procedures are hidden as if they weren't registered,
+     * and so is everything but public procedures from other resources. Nothing is logged, since listing procedures
+     * checks them too.
+     */
+    function getAccessError(name: string, info: ProcedureListenerInfo): RpcError | undefined {
+        const options = rpcListeners[name] && rpcListenerOptions[name];
+        if (!options) return;
+
+        // other resources only see what was made public
+        if (options.internal || (info.resource && !options.public)) return createError(ERR_NOT_FOUND, name, `Procedure "${name}" is not registered.`);
+
+        if (options.allow && !(options.allow as string[]).includes(info.environment)) {
+            return createError(ERR_FORBIDDEN, name, `Procedure "${name}" can't be called from the ${info.environment}.`);
+        }
+    }
+
+    /**
+     * Makes a call to another environment, through the middleware.
+     */
+    function runOutgoing(name: string, args: any, info: ProcedureListenerInfo, handler: (args: any) => Promise<any>): Promise<any> {
+        return middleware.run(rpcMiddleware, {
+            name,
+            args,
+            info,
+            direction: 'outgoing'
+        }, handler).catch(err => {
+            throw RpcError.from(err, { environment, procedure: name });
+        });
+    }
+
+    async function callProcedure(name: string, args: any, info: ProcedureListenerInfo): Promise<any> {
+        try {
+            return await runProcedure(name, args, info);
+        } catch (err) {
+            throw RpcError.from(err, { environment, procedure: name });
+        }
+    }
+
+    async function runProcedure(name: string, args: any, info: ProcedureListenerInfo): Promise<any> {
+        const listener = rpcListeners[name];
+        if (!listener) throw createError(ERR_NOT_FOUND, name, `Procedure "${name}" is not registered.`);
+
+        const options = rpcListenerOptions[name] || {};
+
+        if (options.validate) {
+            const err = schema.validate(options.validate, args, isEntity);
+            if (err) throw createError(ERR_INVALID_ARGUMENTS, name, `${err.path} ${err.message}`, err);
+        }
+
+        const result = await listener(args, info);
+
+        // streamed results are checked by nobody, since they haven't been produced yet
+        if (options.returns && !stream.isAsyncIterable(result) && process.env.NODE_ENV !== 'production') {
+            const err = schema.validate(options.returns, result, isEntity, 'result');
+
+            if (err) {
+                log('error', `Procedure "${name}" returned an invalid result: ${err.path} ${err.message}`, { procedure: name, id: info.id });
+                throw createError(ERR_INVALID_RESULT, name, `${err.path} ${err.message}`, err);
+            }
+        }
+
+        return result;
+    }
+
+    function isEntity(value: any) {
+        return !!rpcTransport.encodeEntity && typeof rpcTransport.encodeEntity(value) === 'number';
+    }
+
+    /**
+     * Sends a request through the given route and waits for its response.
+     *
+     * If the call times out or its signal is aborted, the request is cancelled on the remote side too.
+     */
+    function request(peer: Peer, name: string, args: any, extraData: Partial<Event>, options: CallOptions, send: (event: Event) => void, route: Route = 'network'): Promise<any> {
+        const key = getPeerKey(peer);
+
+        if (rpcWaitForReady && name !== HELLO && !peer.resource && !rpcPeers.has(key)) {
+            const start = Date.now();
+
+            const queued = util.promiseCancellable(whenReady(key), options, reason => createError(reason, name)).then(() => {
+                // the time spent waiting counts towards the timeout
+                const timeout = typeof options.timeout === 'number' ? Math.max(0, options.timeout - (Date.now() - start)) : undefined;
+                return request(peer, name, args, extraData, { ...options, timeout }, send, route);
+            });
+
+            // nobody listens to events
+            if (extraData.noRet) queued.catch((): void => undefined);
+
+            return queued;
+        }
+
+        const retry = getRetryOptions(options.retry);
+
+        // retries share a key, so that the receiver doesn't run the call again if only the response was late
+        const idem = options.idempotencyKey || (retry ? util.uid() : undefined);
+        if (idem) extraData = { ...extraData, idem };
+
+        if (!retry || extraData.noRet) return sendRequest(peer, name, args, extraData, options, send, route);
+
+        const attempt = (count: number): Promise<any> => sendRequest(peer, name, args, extraData, options, send, route).catch(err => {
+            const retryable = err instanceof RpcError && retry.codes.includes(err.code);
+            if (!retryable || count >= retry.attempts || (options.signal && options.signal.aborted)) throw err;
+
+            const delay = Math.min(retry.backoff === 'exponential' ? retry.delay * Math.pow(2, count - 1) : retry.delay, retry.maxDelay);
+            log('info', `Retrying "${name}" in ${delay}ms after ${err.code} (attempt ${count + 1} of ${retry.attempts})`, { procedure: name });
+
+            const wait = new Promise(resolve => util.setTimeout(resolve, delay));
+
+            return util.promiseCancellable(wait, { signal: options.signal }, reason => createError(reason, name)).then(() => attempt(count + 1));
+        });
+
+        return attempt(1);
+    }
+
+    function getRetryOptions(retry: CallOptions['retry']): Required<RetryOptions> | undefined {
+        if (!retry) return;
+
+        const options: RetryOptions = typeof retry === 'number' ? { attempts: retry } : retry;
+        if (!(options.attempts > 1)) return;
+
+        return {
+            attempts: options.attempts,
+            delay: typeof options.delay === 'number' ? options.delay : RETRY_DELAY,
+            backoff: options.backoff || 'exponential',
+            maxDelay: typeof options.maxDelay === 'number' ? options.maxDelay : RETRY_MAX_DELAY,
+            codes: options.codes || [ERR_TIMEOUT]
+        };
+    }
+
+    function sendRequest(peer: Peer, name: string, args: any, extraData: Partial<Event>, options: CallOptions, send: (event: Event) => void, route: Route): Promise<any> {
+        // a call whose signal is already aborted isn't sent at all
+        if (options.signal && options.signal.aborted) return Promise.reject(createError('ABORTED', name));
+
+        const id = util.uid();
+        const finish = countCall('outgoing', name, route, !extraData.noRet);
+
+        const cancel = (reason: string) => sendEvent({
+            type: EventType.CANCEL,
+            id,
+            env: environment
+        }, reason, send, route);
+
+        const promise = new Promise(resolve => {
+            if (!extraData.noRet) {
+                rpcPending[id] = {
+                    ...peer,
+                    name,
+                    resolve,
+                    cancel,
+                    onProgress: options.onProgress,
+                    signal: options.signal
+                };
+            }
+
+            const event: Omit<Event, 'args' | 'part' | 'total'> = {
+                type: EventType.REQUEST,
+                id,
+                name,
+                env: environment,
+                ...extraData
+            };
+
+            if (options.onProgress && !extraData.noRet) event.prog = 1;
+
+            countTransfer('outgoing', name, route, sendEvent(event, args, send, route), 0);
+        });
+
+        return util.promiseCancellable(promise, options, reason => {
+            delete rpcPending[id];
+
+            // an idempotent call keeps running, so that a retry can pick up its result
+            if (reason !== ERR_TIMEOUT || !extraData.idem) cancel(reason);
+
+            return createError(reason, name);
+        }).then(res => {
+            finish();
+            return res;
+        }, err => {
+            finish(err instanceof RpcError ? err.code : ERR_PROCEDURE_ERROR);
+            throw err;
+        });
+    }
+
+    /**
+     * Counts a call in the metrics. Internal procedures aren't counted, and neither are incoming calls to procedures
+     * that aren't registered, so that callers can't fill the metrics with made up names.
+     */
+    function countCall(direction: ProcedureMetrics['direction'], name: string, route: Route, awaited: boolean): (code?: string) => void {
+        if (!isMeasured(direction, name)) return () => undefined;
+
+        return rpcMetrics.call(direction, name, route, awaited);
+    }
+
+    function countTransfer(direction: ProcedureMetrics['direction'], name: string, route: Route, sent: number, received: number) {
+        if (isMeasured(direction, name)) rpcMetrics.transfer(direction, name, route, sent, received);
+    }
+
+    function isMeasured(direction: ProcedureMetrics['direction'], name: string) {
+        return !!name && !name.startsWith('__rpc:') && (direction === 'outgoing' || !!rpcListeners[name]);
+    }
+
+    /**
+     * Creates a function that sends events to a target. While batching, events to the same target are queued
+     * and sent together as an array.
+     *
+     * @param target - identifies the destination, such as a player or a webview
+     * @param route - the link to the target
+     * @param emit - sends one event, or an array of them
+     * @param always - batch even if we aren't batching right now
+     */
+    function channel(target: any, route: Route, emit: (data: Event | Event[]) => void, always = false): (event: Event) => void {
+        return event => {
+            if (rpcInspector) inspect('out', event, target, route);
+
+            if (!always && !rpcAutoBatch && !rpcBatchDepth) return emit(event);
+
+            const size = event.args ? event.args.length : 0;
+            let outbox = rpcOutboxes.get(target);
+
+            // a batch is no excuse to exceed the chunk size
+            if (outbox && rpcChunkSizes[route] && outbox.size + size > rpcChunkSizes[route]) {
+                rpcOutboxes.delete(target);
+                flushOutbox(outbox);
+                outbox = undefined;
+            }
+
+            if (!outbox) {
+                outbox = { emit, events: [], size: 0 };
+                rpcOutboxes.set(target, outbox);
+            }
+
+            outbox.events.push(event);
+            outbox.size += size;
+
+            if (!rpcBatchDepth && !rpcFlushScheduled) {
+                rpcFlushScheduled = true;
+                Promise.resolve().then(flush);
+            }
+        };
+    }
+
+    /**
+     * Hands an event to the inspector, along with who is on the other side.
+     */
+    function inspect(direction: 'in' | 'out', event: Event, target: any, route: Route) {
+        let peer: string | number = target;
+
+        if (typeof target !== 'string') {
+            const id = environment === 'server' ? rpcTransport.encodeEntity && rpcTransport.encodeEntity(target) : rpcBrowserIds.get(target);
+            peer = typeof id === 'undefined' ? (environment === 'server' ? 'client' : 'cef') : id;
+        }
+
+        rpcInspector.observe(direction, RECORD_KINDS[event.type], event, peer, route);
+    }
+
+    function flushOutbox(outbox: Outbox) {
+        outbox.emit(outbox.events.length === 1 ? outbox.events[0] : outbox.events);
+    }
+
+    /**
+     * Sends everything that is waiting in the outboxes.
+     */
+    function flush() {
+        rpcFlushScheduled = false;
+
+        const outboxes = Array.from(rpcOutboxes.values());
+        rpcOutboxes.clear();
+
+        outboxes.forEach(flushOutbox);
+    }
+
+    /**
+     * Invokes the callback with each event partial after stringifying, compressing and splitting the arguments.
+     *
+     * Uses our own serializer unless told otherwise, e.g. when answering a request sent in another format.
+     *
+     * @returns the length of the arguments as they were sent
+     */
+    function sendEvent(event: Omit<Event, 'args' | 'part' | 'total'>, args: any, callback: (event: Event) => void, route: Route = 'network', serializer = rpcSerializer): number {
+        let zip: 1;
+
+        const send = (part: number, total: number, args?: string) => {
+            const ev: Event = {
+                ...event,
+                part,
+                total,
+                args
+            };
+
+            if (zip) ev.zip = zip;
+
+            // requests without args still tell the other side how to answer
+            if (serializer.name !== jsonSerializer.name) ev.ser = serializer.name;
+
+            callback(ev);
+        };
+
+        if (typeof args !== 'undefined') {
+            // we got args to send
+            let stringified = serializer.serialize(args, rpcTransport);
+
+            if (typeof rpcCompressionThreshold === 'number' && stringified.length >= rpcCompressionThreshold) {
+                const compressed = compression.compress(stringified);
+
+                // only worth it if it actually got smaller
+                if (typeof compressed === 'string' && compressed.length < stringified.length) {
+                    stringified = compressed;
+                    zip = 1;
+                }
+            }
+
+            const parts = util.chunk(stringified, rpcChunkSizes[route]);
+
+            parts.forEach((part, idx) => {
+                send(idx + 1, parts.length, part);
+            });
+
+            return stringified.length;
+        }
+
+        // sending no args
+        send(1, 1);
+        return 0;
+    }
+
+    /**
+     * Notifies RPC about a WebView.
+     *
+     * @param webView
+     * @param options - An ID to address the WebView by.
+     */
+    function addWebView(webView: any, options: WebViewOptions = {}) {
+        requireNamespace();
+
+        if (environment !== "client") throw 'addWebView can only be used on the client';
+
+        if (typeof options.id !== 'undefined') {
+            const existing = getWebView(options.id);
+            if (existing && existing !== webView) throw `A WebView with the ID "${options.id}" was already added`;
+
+            rpcBrowserIds.set(webView, options.id);
+        }
+
+        if (!rpcBrowsers.includes(webView)) {
+            const onProcess = (data: Event | Event[]) => receive(data, undefined, webView);
+            const onRegister = (procedure: string) => {
+                forgetBrowserProcedure(procedure, webView);
+                (rpcBrowserProcedures[procedure] = rpcBrowserProcedures[procedure] || []).push(webView);
+            };
+            const onUnregister = (procedure: string) => forgetBrowserProcedure(procedure, webView);
+
+            // namespaced, so other instances can share the webview
+            const processEventName = getEventName(PROCESS_EVENT);
+            const registerEventName = getEventName(BROWSER_REGISTER);
+            const unregisterEventName = getEventName(BROWSER_UNREGISTER);
+
+            rpcTransport.onWebView(webView, processEventName, onProcess);
+            rpcTransport.onWebView(webView, registerEventName, onRegister);
+            rpcTransport.onWebView(webView, unregisterEventName, onUnregister);
+
+            rpcBrowserCleanups.set(webView, () => {
+                rpcTransport.offWebView(webView, processEventName, onProcess);
+                rpcTransport.offWebView(webView, registerEventName, onRegister);
+                rpcTransport.offWebView(webView, unregisterEventName, onUnregister);
+            });
+
+            rpcBrowsers.push(webView);
+
+            // the page might have loaded already
+            sayHello(webView);
+        }
+    }
+
+    function getWebView(id: string): any {
+        const entry = Array.from(rpcBrowserIds).find(([, webViewId]) => webViewId === id);
+        return entry && entry[0];
+    }
+
+    function forgetBrowserProcedure(procedure: string, webView: any) {
+        const browsers = rpcBrowserProcedures[procedure];
+        if (!browsers) return;
+
+        const idx = browsers.indexOf(webView);
+        if (idx !== -1) browsers.splice(idx, 1);
+
+        if (!browsers.length) delete rpcBrowserProcedures[procedure];
+    }
+
+    /**
+     * Makes RPC forget about a WebView, usually right before it's destroyed.
+     *
+     * Pending calls to the WebView are rejected with `WEBVIEW_REMOVED`.
+     *
+     * @param webView
+     */
+    function removeWebView(webView: any) {
+        requireNamespace();
+
+        if (environment !== "client") throw 'removeWebView can only be used on the client';
+
+        const idx = rpcBrowsers.indexOf(webView);
+        if (idx === -1) return;
+
+        rpcBrowsers.splice(idx, 1);
+
+        rpcBrowserCleanups.get(webView)();
+        rpcBrowserCleanups.delete(webView);
+        rpcBrowserIds.delete(webView);
+
+        Object.keys(rpcBrowserProcedures).forEach(procedure => forgetBrowserProcedure(procedure, webView));
+        Object.keys(rpcSubscriptions).forEach(name => unsubscribeBrowser(name, webView));
+
+        dropPeer({ webView }, ERR_WEBVIEW_REMOVED);
+    }
+
+    /**
+     * Register a procedure.
+     * @param {string} name - The name of the procedure.
+     * @param {function} cb - The procedure's callback. The return value will be sent back to the caller.
+     * @param {object} options - Any options, such as argument validation.
+     */
+    function register(name: string, cb: ProcedureListener, options: RegisterOptions = {}): void {
+        if(arguments.length < 2 || arguments.length > 3) throw 'register expects 2 or 3 arguments: "name", "cb" and optional "options"';
+        requireTransport();
+
+        log('debug', `Registered procedure "${name}"`, { procedure: name });
+
+        if (environment === 'cef' && rpcNamespace) {
+            // notify the client that we have ownership of this procedure. Before init(), that happens once we have a namespace
+            rpcTransport.emit(getEventName(BROWSER_REGISTER), name);
+        }
+
+        rpcListeners[name] = cb;
+        rpcListenerOptions[name] = options;
+    }
+
+    /**
+     * Unregister a procedure.
+     * @param {string} name - The name of the procedure.
+     */
+    function unregister(name: string): void {
+        if(arguments.length !== 1) throw 'unregister expects 1 argument: "name"';
+        requireTransport();
+
+        if (environment === 'cef' && rpcNamespace && rpcListeners[name]) {
+            // let the client know we no longer take calls to this procedure
+            rpcTransport.emit(getEventName(BROWSER_UNREGISTER), name);
+        }
+
+        rpcListeners[name] = undefined;
+        rpcListenerOptions[name] = undefined;
+    }
+
+    /**
+     * Lists the procedures registered in the current context, without the internal ones.
+     *
+     * Can be called from any environment.
+     *
+     * @returns The name of each procedure, along with its description and schemas if it was registered with them.
+     */
+    function listProcedures(): ProcedureInfo[] {
+        return Object.keys(rpcListeners).filter(name => rpcListeners[name] && !name.startsWith('__rpc:')).map(name => {
+            const options = rpcListenerOptions[name] || {};
+            const info: ProcedureInfo = { name };
+
+            if (typeof options.description === 'string') info.description = options.description;
+            if (options.validate) info.validate = options.validate;
+            if (options.returns) info.returns = options.returns;
+
+            return info;
+        });
+    }
+
+    /**
+     * Lists the procedures registered in another environment.
+     *
+     * Can be called from any environment.
+     *
+     * @param target - Where to look: `server`, `client` or `browsers`.
+     * @param options - The player whose client or browsers to look at, when called from the server, and a timeout.
+     * @returns The procedures, as `listProcedures` would return them there. For `browsers`, those of every browser.
+     */
+    function queryProcedures(target: ProcedureTarget, options: QueryOptions = {}): Promise<ProcedureInfo[]> {
+        if (arguments.length < 1 || arguments.length > 2) return Promise.reject('queryProcedures expects 1 or 2 arguments: "target" and optional "options"');
+        requireNamespace();
+
+        const callOptions: CallOptions = { timeout: options.timeout };
+
+        if (environment === 'server' && target !== 'server' && !options.player) {
+            return Promise.reject(`queryProcedures from the server expects a player for "${target}"`);
+        }
+
+        switch (target) {
+            case 'server':
+                return environment === 'server' ? Promise.resolve(listProcedures()) : _callServer(LIST_PROCEDURES, undefined, {}, callOptions);
+            case 'client':
+                return environment === 'client' ? Promise.resolve(listProcedures()) : _callClient(options.player, LIST_PROCEDURES, undefined, {}, callOptions);
+            case 'browsers':
+                return environment === 'client' ? listBrowserProcedures() : _callClient(options.player, LIST_BROWSER_PROCEDURES, undefined, {}, callOptions);
+            default:
+                return Promise.reject(`Unknown target "${target}". Expected "server", "client" or "browsers".`);
+        }
+    }
+
+    /**
+     * Checks whether a procedure is registered, without calling it.
+     *
+     * Can be called from any environment.
+     *
+     * @param name - The name of the procedure.
+     * @param target - Where to look: `server`, `client` or `browsers`. Defaults to the current context.
+     * @param options - The player whose client or browsers to look at, when called from the server, and a timeout.
+     * @returns Whether the procedure exists.
+     */
+    function hasProcedure(name: string, target?: ProcedureTarget, options: QueryOptions = {}): Promise<boolean> {
+        if (arguments.length < 1 || arguments.length > 3) return Promise.reject('hasProcedure expects 1 to 3 arguments: "name", optional "target", and optional "options"');
+
+        if (!target) return Promise.resolve(listProcedures().some(procedure => procedure.name === name));
+
+        return queryProcedures(target, options).then(procedures => procedures.some(procedure => procedure.name === name));
+    }
+
+    /**
+     * Asks every browser of this client for its procedures. Browsers that don't answer are left out.
+     */
+    function listBrowserProcedures(signal?: RpcAbortSignal): Promise<ProcedureInfo[]> {
+        const browsers = rpcBrowsers.filter(browser => browser.valid);
+
+        return Promise.all(browsers.map(browser => _callBrowser(browser, LIST_PROCEDURES, undefined, {}, { signal }).catch((): ProcedureInfo[] => []))).then((lists: ProcedureInfo[][]) => {
+            const seen: { [name: string]: boolean } = {};
+
+            return lists.reduce((all, list) => all.concat(list), []).filter(procedure => {
+                if (seen[procedure.name]) return false;
+
+                seen[procedure.name] = true;
+                return true;
+            });
+        });
+    }
+
+    /**
+     * Calls a local procedure. Only procedures registered in the same context will be resolved.
+     *
+     * Can be called from any environment.
+     *
+     * @param name - The name of the locally registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function call(name: string, args?: any, options: CallOptions = {}): Promise<any> {
+        if(arguments.length < 1 || arguments.length > 3) return Promise.reject('call expects 1 to 3 arguments: "name", optional "args", and optional "options"');
+        requireTransport();
+
+        // the procedure gets its own signal so it also observes timeouts
+        const controller = util.createAbortController();
+        const promise = callProcedure(name, args, {
+            environment,
+            signal: controller.signal,
+            progress: value => options.onProgress && options.onProgress(value)
+        });
+
+        return util.promiseCancellable(promise, options, reason => {
+            controller.abort(reason);
+            return createError(reason, name);
+        });
+    }
+
+    function _callServer(name: string, args?: any, extraData: Partial<Event> = {}, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        switch(environment){
+            case 'server': {
+                return call(name, args, options);
+            }
+            case 'client': {
+                return request({}, name, args, extraData, options, channel('server', 'network', data => rpcTransport.emitServer(getEventName(PROCESS_EVENT), data)));
+            }
+            case 'cef': {
+                return relay(name, _callClient(null, '__rpc:callServer', [name, args, +extraData.noRet], {}, options), !extraData.noRet);
+            }
+        }
+    }
+
+    /**
+     * Calls a remote procedure registered on the server.
+     *
+     * Can be called from any environment.
+     *
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function callServer(name: string, args?: any, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        if (arguments.length < 1 || arguments.length > 3) return Promise.reject('callServer expects 1 to 3 arguments: "name", optional "args", and optional "options"');
+
+        let extraData: Partial<Event> = {};
+        if (options.noRet) extraData.noRet = 1;
+
+        return runOutgoing(name, args, { environment }, args => _callServer(name, args, extraData, options));
+    }
+
+    function _callClient(player: any, name: string, args?: any, extraData: Partial<Event> = {}, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        switch (environment) {
+            case 'client': {
+                return call(name, args, options);
+            }
+            case 'server': {
+                return request({ player }, name, args, extraData, options, channel(player, 'network', data => rpcTransport.emitClient(player, getEventName(PROCESS_EVENT), data)));
+            }
+            case 'cef': {
+                return request({}, name, args, extraData, options, channel('client', 'webView', data => rpcTransport.emit(getEventName(PROCESS_EVENT), data)), 'webView');
+            }
+        }
+    }
+
+    /**
+     * Calls a remote procedure registered on the client.
+     *
+     * Can be called from any environment.
+     *
+     * @param player - The player to call the procedure on.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function callClient(player: any | string, name?: string | any, args?: any, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        switch(environment){
+            case 'client': {
+                options = args || {};
+                args = name;
+                name = player;
+                player = null;
+                if ((arguments.length < 1 || arguments.length > 3) || typeof name !== 'string') return Promise.reject('callClient from the client expects 1 to 3 arguments: "name", optional "args", and optional "options"');
+                break;
+            }
+            case 'server': {
+                if ((arguments.length < 2 || arguments.length > 4) || typeof player !== 'object') return Promise.reject('callClient from the server expects 2 to 4 arguments: "player", "name", optional "args", and optional "options"');
+                break;
+            }
+            case 'cef': {
+                options = args || {};
+                args = name;
+                name = player;
+                player = null;
+                if ((arguments.length < 1 || arguments.length > 3) || typeof name !== 'string') return Promise.reject('callClient from the browser expects 1 to 3 arguments: "name", optional "args", and optional "options"');
+                break;
+            }
+        }
+
+        let extraData: Partial<Event> = {};
+        if (options.noRet) extraData.noRet = 1;
+
+        return runOutgoing(name, args, { environment, player }, args => _callClient(player, name, args, extraData, options));
+    }
+
+    /**
+     * Calls a public procedure of another resource on the same side.
+     *
+     * Can be called from the server or the client.
+     *
+     * @param resource - The name of the resource.
+     * @param name - The name of the procedure, which the resource registered with the `public` option.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure. If the resource isn't running, the call is rejected with `PROCEDURE_NOT_FOUND`.
+     */
+    function callResource(resource: string, name: string, args?: any, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        if (arguments.length < 2 || arguments.length > 4) return Promise.reject('callResource expects 2 to 4 arguments: "resource", "name", optional "args", and optional "options"');
+        if (environment === 'cef') return Promise.reject('callResource can only be used on the server or the client');
+        if (!rpcTransport.resource) return Promise.reject('callResource needs a transport that knows the name of its resource');
+
+        let extraData: Partial<Event> = {};
+        if (options.noRet) extraData.noRet = 1;
+
+        return runOutgoing(name, args, { environment, resource }, args => {
+            if (rpcTransport.hasResource && !rpcTransport.hasResource(resource)) {
+                return Promise.reject(createError(ERR_NOT_FOUND, name, `Resource "${resource}" is not running.`, { resource }));
+            }
+
+            return request({ resource }, name, args, extraData, options, channel(resource, 'resource', data => emitResource(resource, data)), 'resource');
+        });
+    }
+
+    /**
+     * Sends packets to another resource over the local bus, signed with the name of ours so that it can answer.
+     */
+    function emitResource(resource: string, data: Event | Event[]) {
+        const sign = (event: Event): Event => ({ ...event, res: rpcTransport.resource });
+        rpcTransport.emit(`${RESOURCE_EVENT}::${resource}`, Array.isArray(data) ? data.map(sign) : sign(data));
+    }
+
+    /**
+     * Relays a call from one player to another, if the relay options allow it.
+     */
+    async function relayToPlayer(target: any, name: string, args: any, browsers: boolean, noRet: boolean, isEvent: boolean, info: ProcedureListenerInfo): Promise<any> {
+        const player = typeof target === 'number' ? rpcTransport.getPlayers().find(p => rpcTransport.encodeEntity(p) === target) : target;
+        if (!player || !player.valid) throw createError(ERR_PLAYER_NOT_FOUND, name);
+
+        const environment = browsers ? 'browser' : 'client';
+
+        // internal procedures would let the player act on behalf of the other one
+        const allowed = rpcRelay && !name.startsWith('__rpc:') && (rpcRelay.procedures ? rpcRelay.procedures.includes(name) : !!rpcRelay.authorize)
+            && (!rpcRelay.authorize || await rpcRelay.authorize(info.player, player, name, environment));
+
+        if (!allowed) {
+            log('warn', `Refused to relay "${name}" to the ${environment} of another player`, { procedure: name, player: getPlayerId(info.player) });
+            throw createError(ERR_FORBIDDEN, name, `Relaying "${name}" to other players is not allowed.`);
+        }
+
+        const extraData: Partial<Event> = {
+            fenv: info.environment,
+            orig: rpcTransport.encodeEntity(info.player)
+        };
+
+        if (isEvent) {
+            _callClient(player, getEventName(browsers ? TRIGGER_EVENT_BROWSERS : TRIGGER_EVENT), [name, args], { ...extraData, noRet: 1 });
+            return;
+        }
+
+        if (noRet) extraData.noRet = 1;
+
+        const options = { signal: info.signal, onProgress: info.progress };
+        return browsers ? _callBrowsers(player, name, args, extraData, options) : _callClient(player, name, args, extraData, options);
+    }
+
+    /**
+     * Calls a remote procedure registered on the client of another player, relayed by the server.
+     *
+     * Client-side or browser environment only. The server must allow the procedure with its `relay` option.
+     *
+     * @param player - The player to call the procedure on, or their ID.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function callPlayer(player: any | number, name: string, args?: any, options: CallOptions = {}): Promise<any> {
+        return callPlayerEnvironment('callPlayer', false, arguments.length, player, name, args, options);
+    }
+
+    /**
+     * Calls a remote procedure registered in any browser context of another player, relayed by the server.
+     *
+     * Client-side or browser environment only. The server must allow the procedure with its `relay` option.
+     *
+     * @param player - The player to call the procedure on, or their ID.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function callPlayerBrowsers(player: any | number, name: string, args?: any, options: CallOptions = {}): Promise<any> {
+        return callPlayerEnvironment('callPlayerBrowsers', true, arguments.length, player, name, args, options);
+    }
+
+    function callPlayerEnvironment(fn: string, browsers: boolean, argc: number, player: any, name: string, args: any, options: CallOptions): Promise<any> {
+        requireNamespace();
+        if (environment === 'server') return Promise.reject(`${fn} can only be used on the client or in the browser`);
+        if (argc < 2 || argc > 4) return Promise.reject(`${fn} expects 2 to 4 arguments: "player", "name", optional "args", and optional "options"`);
+
+        let extraData: Partial<Event> = {};
+        if (options.noRet) extraData.noRet = 1;
+
+        return runOutgoing(name, args, { environment }, args => relay(name, _callServer(CALL_PLAYER, [player, name, args, +browsers, +!!options.noRet], extraData, options), !options.noRet));
+    }
+
+    /**
+     * Calls a remote procedure registered on the client of many players at once.
+     *
+     * Server-side environment only.
+     *
+     * @param players - The players to call the procedure on, or `all` for every connected player.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options. The timeout applies to each player separately.
+     * @returns How the call went for each player, once all of them have responded or failed.
+     */
+    function callClients(players: any[] | 'all', name: string, args?: any, options: CallOptions = {}): Promise<Map<any, CallResult>> {
+        requireNamespace();
+        if (environment !== 'server') return Promise.reject('callClients can only be used on the server');
+        if (arguments.length < 2 || arguments.length > 4) return Promise.reject('callClients expects 2 to 4 arguments: "players", "name", optional "args", and optional "options"');
+        if (options.noRet) return Promise.reject('callClients does not support noRet, use triggerClients instead');
+
+        return settle(resolvePlayers(players), player => callClient(player, name, args, options));
+    }
+
+    function resolvePlayers(players: any[] | 'all'): any[] {
+        return players === 'all' ? rpcTransport.getPlayers() : players;
+    }
+
+    /**
+     * Calls something for each player and collects how each call went, in the order of the players.
+     */
+    function settle(players: any[], fn: (player: any) => Promise<any>): Promise<Map<any, CallResult>> {
+        return Promise.all(players.map(player => toResult(fn(player))))
+            .then(results => new Map(players.map((player, idx): [any, CallResult] => [player, results[idx]])));
+    }
+
+    /**
+     * Turns the outcome of a call into a result that never rejects.
+     */
+    function toResult(promise: Promise<any>): Promise<CallResult> {
+        return promise.then(
+            (value): CallResult => ({ status: 'success', value }),
+            (error): CallResult => ({ status: error && error.code === ERR_TIMEOUT ? 'timeout' : 'error', error })
+        );
+    }
+
+    function _callBrowser(browser: any, name: string, args?: any, extraData: Partial<Event> = {}, options: CallOptions = {}): Promise<any> {
+        if (!browser || !browser.valid) return Promise.reject(createError(ERR_INVALID_BROWSER, name));
+        requireNamespace();
+
+        return request({ webView: browser }, name, args, extraData, options, channel(browser, 'webView', data => browser.valid && rpcTransport.emitWebView(browser, getEventName(PROCESS_EVENT), data)), 'webView');
+    }
+
+    function _callBrowsers(player: any, name: string, args?: any, extraData: Partial<Event> = {}, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        switch (environment) {
+            case 'client': {
+                if (typeof options.browserId === 'string') {
+                    const browser = getWebView(options.browserId);
+                    if (!browser) return Promise.reject(createError(ERR_INVALID_BROWSER, name, `No WebView was added with the ID "${options.browserId}".`));
+                    return _callBrowser(browser, name, args, extraData, options);
+                }
+
+                const browsers = (rpcBrowserProcedures[name] || []).filter(browser => browser.valid);
+
+                if (!browsers.length) {
+                    // the procedure might be registered by a page that is still loading
+                    const loading = rpcWaitForReady ? rpcBrowsers.filter(browser => !rpcPeers.has(browser)) : [];
+
+                    if (loading.length) {
+                        const ready = Promise.all(loading.map(browser => whenReady(browser).catch((): void => undefined)));
+                        return util.promiseCancellable(ready, options, reason => createError(reason, name)).then(() => _callBrowsers(player, name, args, extraData, options));
+                    }
+
+                    return Promise.reject(createError(ERR_NOT_FOUND, name, `Procedure "${name}" is not registered in any browser.`));
+                }
+
+                if (options.browsers === 'all') {
+                    const calls = browsers.map(browser => toResult(_callBrowser(browser, name, args, extraData, options)).then(result => {
+                        const id = rpcBrowserIds.get(browser);
+                        return typeof id === 'undefined' ? result : { ...result, id };
+                    }));
+
+                    return Promise.all(calls).then(results => extraData.noRet ? undefined : results);
+                }
+
+                return _callBrowser(options.browsers === 'first' ? browsers[0] : browsers[browsers.length - 1], name, args, extraData, options);
+            }
+            case 'server':
+            case 'cef': {
+                const passThrough = [name, args, +extraData.noRet, options.browsers, options.browserId];
+
+                return relay(name, _callClient(player, '__rpc:callBrowsers', passThrough, extraData, options), !extraData.noRet).then(result => {
+                    if (options.browsers !== 'all' || !Array.isArray(result)) return result;
+
+                    // errors lose their class on the way, so they're turned back into RpcErrors
+                    return result.map((result: BrowserCallResult) => result.error ? { ...result, error: RpcError.from(result.error, { procedure: name }) } : result);
+                });
+            }
+        }
+    }
+
+    /**
+     * Calls a remote procedure registered in any browser context.
+     *
+     * Can be called from any environment.
+     *
+     * @param player - The player to call the procedure on.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function callBrowsers(player: any | string, name?: string | any, args?: any, options: CallOptions = {}): Promise<any> {
+        requireNamespace();
+
+        let extraData: Partial<Event> = {};
+
+        switch (environment) {
+            case 'client':
+            case 'cef':
+                options = args || {};
+                args = name;
+                name = player;
+                if (arguments.length < 1 || arguments.length > 3) return Promise.reject('callBrowsers from the client or browser expects 1 to 3 arguments: "name", optional "args", and optional "options"');
+                if (options.noRet) extraData.noRet = 1;
+                player = null;
+                break;
+            case 'server':
+                if (arguments.length < 2 || arguments.length > 4) return Promise.reject('callBrowsers from the server expects 2 to 4 arguments: "player", "name", optional "args", and optional "options"');
+                if (options.noRet) extraData.noRet = 1;
+                break;
+        }
+
+        return runOutgoing(name, args, { environment, player }, args => _callBrowsers(player, name, args, extraData, options));
+    }
+
+    /**
+     * Calls a remote procedure registered in any browser context of many players at once.
+     *
+     * Server-side environment only.
+     *
+     * @param players - The players to call the procedure on, or `all` for every connected player.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options. The timeout applies to each player separately.
+     * @returns How the call went for each player, once all of them have responded or failed.
+     */
+    function callBrowsersOf(players: any[] | 'all', name: string, args?: any, options: CallOptions = {}): Promise<Map<any, CallResult>> {
+        requireNamespace();
+        if (environment !== 'server') return Promise.reject('callBrowsersOf can only be used on the server');
+        if (arguments.length < 2 || arguments.length > 4) return Promise.reject('callBrowsersOf expects 2 to 4 arguments: "players", "name", optional "args", and optional "options"');
+        if (options.noRet) return Promise.reject('callBrowsersOf does not support noRet, use triggerBrowsersOf instead');
+
+        return settle(resolvePlayers(players), player => callBrowsers(player, name, args, options));
+    }
+
+    /**
+     * Calls a remote procedure registered in a specific browser instance.
+     *
+     * Client-side environment only.
+     *
+     * @param browser - The browser instance, or the ID it was added with.
+     * @param name - The name of the registered procedure.
+     * @param args - Any parameters for the procedure.
+     * @param options - Any options.
+     * @returns The result from the procedure.
+     */
+    function callBrowser(browser: any, name: string, args?: any, options: CallOptions = {}): Promise<any> {
+        requireTransport();
+        if(environment !== 'client') return Promise.reject('callBrowser can only be used in the client environment');
+        if(arguments.length < 2 || arguments.length > 4) return Promise.reject('callBrowser expects 2 to 4 arguments: "browser", "name", optional "args", and optional "options"');
+        requireNamespace();
+
+        if(typeof browser === 'string') browser = getWebView(browser);
+
+        let extraData: any = {};
+        if(options.noRet) extraData.noRet = 1;
+
+        return runOutgoing(name, args, { environment, browser }, args => _callBrowser(browser, name, args, extraData, options));
+    }
+
+    /**
+     * Sends the calls made while running a function together, in as few packets as possible.
+     *
+     * Only calls made synchronously are batched. Their promises still settle independently.
+     *
+     * @param fn - makes the calls
+     * @returns Whatever the function returns.
+     */
+    function batch<T>(fn: () => T): T {
+        rpcBatchDepth++;
+
+        try {
+            return fn();
+        } finally {
+            rpcBatchDepth--;
+            if (!rpcBatchDepth) flush();
+        }
+    }
+
+    /**
+     * Adds a middleware that every incoming request and outgoing call passes through.
+     *
+     * Local calls and events don't pass through middleware.
+     *
+     * @param prefix - Optional. Only procedures whose name starts with this pass through the middleware.
+     * @param fn - The middleware.
+     * @returns A function that removes the middleware.
+     */
+    function use(prefix: string | Middleware, fn?: Middleware): () => void {
+        requireAlive();
+
+        if (typeof prefix === 'function') {
+            fn = prefix;
+            prefix = '';
+        }
+
+        if (typeof fn !== 'function') throw 'use expects 1 or 2 arguments: optional "prefix" and "middleware"';
+
+        const entry = { prefix, fn };
+        rpcMiddleware.push(entry);
+
+        return () => {
+            const idx = rpcMiddleware.indexOf(entry);
+            if (idx !== -1) rpcMiddleware.splice(idx, 1);
+        };
+    }
+
+    function callEvent(name: string, args: any, info: ProcedureListenerInfo){
+        const listeners = rpcEvListeners[name];
+        if(listeners){
+            listeners.forEach((listener: Function) => listener(args, info));
+        }
+    }
+
+    /**
+     * Register an event handler.
+     * @param {string} name - The name of the event.
+     * @param cb - The callback for the event.
+     */
+    function on(name: string, cb: ProcedureListener){
+        if(arguments.length !== 2) throw 'on expects 2 arguments: "name" and "cb"';
+        requireAlive();
+
+        const listeners = rpcEvListeners[name] || new Set();
+        listeners.add(cb);
+        rpcEvListeners[name] = listeners;
+    }
+
+    /**
+     * Unregister an event handler.
+     * @param {string} name - The name of the event.
+     * @param cb - The callback for the event.
+     */
+    function off(name: string, cb: ProcedureListener){
+        if(arguments.length !== 2) throw 'off expects 2 arguments: "name" and "cb"';
+        requireAlive();
+
+        const listeners = rpcEvListeners[name];
+        if(listeners){
+            listeners.delete(cb);
+        }
+    }
+
+    /**
+     * Triggers a local event. Only events registered in the same context will be triggered.
+     *
+     * Can be called from any environment.
+     *
+     * @param name - The name of the locally registered event.
+     * @param args - Any parameters for the event.
+     */
+    function trigger(name: string, args?: any){
+        if(arguments.length < 1 || arguments.length > 2) throw 'trigger expects 1 or 2 arguments: "name", and optional "args"';
+        requireTransport();
+        callEvent(name, args, { environment });
+    }
+
+    /**
+     * Triggers an event registered on the client.
+     *
+     * Can be called from any environment.
+     *
+     * @param player - The player to call the procedure on.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerClient(player: any | string, name?: string | any, args?: any){
+        requireNamespace();
+
+        switch(environment){
+            case 'client': {
+                args = name;
+                name = player;
+                player = null;
+                if((arguments.length < 1 || arguments.length > 2) || typeof name !== 'string') throw 'triggerClient from the client expects 1 or 2 arguments: "name", and optional "args"';
+                break;
+            }
+            case 'server': {
+                if((arguments.length < 2 || arguments.length > 3) || typeof player !== 'object') throw 'triggerClient from the server expects 2 or 3 arguments: "player", "name", and optional "args"';
+                break;
+            }
+            case 'cef': {
+                args = name;
+                name = player;
+                player = null;
+                if((arguments.length < 1 || arguments.length > 2) || typeof name !== 'string') throw 'triggerClient from the browser expects 1 or 2 arguments: "name", and optional "args"';
+                break;
+            }
+        }
+
+        _callClient(player, getEventName(TRIGGER_EVENT), [name, args], { noRet: 1 });
+    }
+
+    /**
+     * Triggers an event registered on the client of many players at once.
+     *
+     * Server-side environment only.
+     *
+     * @param players - The players to trigger the event on, or `all` for every connected player.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerClients(players: any[] | 'all', name: string, args?: any){
+        requireNamespace();
+        if(environment !== 'server') throw 'triggerClients can only be used on the server';
+        if(arguments.length < 2 || arguments.length > 3) throw 'triggerClients expects 2 or 3 arguments: "players", "name", and optional "args"';
+
+        resolvePlayers(players).forEach(player => triggerClient(player, name, args));
+    }
+
+    /**
+     * Triggers an event registered on the client of another player, relayed by the server.
+     *
+     * Client-side or browser environment only. The server must allow the event with its `relay` option.
+     *
+     * @param player - The player to trigger the event on, or their ID.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerPlayer(player: any | number, name: string, args?: any){
+        requireNamespace();
+        if(environment === 'server') throw 'triggerPlayer can only be used on the client or in the browser';
+        if(arguments.length < 2 || arguments.length > 3) throw 'triggerPlayer expects 2 or 3 arguments: "player", "name", and optional "args"';
+
+        _callServer(CALL_PLAYER, [player, name, args, 0, 1, 1], { noRet: 1 });
+    }
+
+    /**
+     * Triggers an event registered in any browser context of another player, relayed by the server.
+     *
+     * Client-side or browser environment only. The server must allow the event with its `relay` option.
+     *
+     * @param player - The player to trigger the event on, or their ID.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerPlayerBrowsers(player: any | number, name: string, args?: any){
+        requireNamespace();
+        if(environment === 'server') throw 'triggerPlayerBrowsers can only be used on the client or in the browser';
+        if(arguments.length < 2 || arguments.length > 3) throw 'triggerPlayerBrowsers expects 2 or 3 arguments: "player", "name", and optional "args"';
+
+        _callServer(CALL_PLAYER, [player, name, args, 1, 1, 1], { noRet: 1 });
+    }
+
+    /**
+     * Triggers an event registered on the server.
+     *
+     * Can be called from any environment.
+     *
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerServer(name: string, args?: any){
+        if(arguments.length < 1 || arguments.length > 2) throw 'triggerServer expects 1 or 2 arguments: "name", and optional "args"';
+        requireNamespace();
+
+        _callServer(getEventName(TRIGGER_EVENT), [name, args], { noRet: 1 });
+    }
+
+    /**
+     * Triggers an event registered in any browser context.
+     *
+     * Can be called from any environment.
+     *
+     * @param player - The player to call the procedure on.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerBrowsers(player: any | string, name?: string | any, args?: any){
+        requireTransport();
+        switch(environment){
+            case 'client':
+            case 'cef':
+                args = name;
+                name = player;
+                player = null;
+                if(arguments.length < 1 || arguments.length > 2) throw 'triggerBrowsers from the client or browser expects 1 or 2 arguments: "name", and optional "args"';
+                break;
+            case 'server':
+                if(arguments.length < 2 || arguments.length > 3) throw 'triggerBrowsers from the server expects 2 or 3 arguments: "player", "name", and optional "args"';
+                break;
+        }
+
+        requireNamespace();
+
+        _callClient(player, getEventName(TRIGGER_EVENT_BROWSERS), [name, args], { noRet: 1 });
+    }
+
+    /**
+     * Triggers an event registered in any browser context of many players at once.
+     *
+     * Server-side environment only.
+     *
+     * @param players - The players to trigger the event on, or `all` for every connected player.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerBrowsersOf(players: any[] | 'all', name: string, args?: any){
+        requireNamespace();
+        if(environment !== 'server') throw 'triggerBrowsersOf can only be used on the server';
+        if(arguments.length < 2 || arguments.length > 3) throw 'triggerBrowsersOf expects 2 or 3 arguments: "players", "name", and optional "args"';
+
+        resolvePlayers(players).forEach(player => triggerBrowsers(player, name, args));
+    }
+
+    /**
+     * Triggers an event registered in a specific browser instance.
+     *
+     * Client-side environment only.
+     *
+     * @param browser - The browser instance, or the ID it was added with.
+     * @param name - The name of the event.
+     * @param args - Any parameters for the event.
+     */
+    function triggerBrowser(browser: any, name: string, args?: any){
+        requireTransport();
+        if(environment !== 'client') throw 'callBrowser can only be used in the client environment';
+        if(arguments.length < 2 || arguments.length > 4) throw 'callBrowser expects 2 or 3 arguments: "browser", "name", and optional "args"';
+        requireNamespace();
+
+        if(typeof browser === 'string') browser = getWebView(browser);
+
+        _callBrowser(browser, getEventName(TRIGGER_EVENT), [name, args], { noRet: 1});
+    }
+
+    /**
+     * Gets RPC with every procedure function checked against a contract, from the point of view of an environment.
+     *
+     * This only adds types: the returned object is RPC itself.
+     *
+     * @example
+     * const rpc = typed<MyContract, 'client'>();
+     * const balance = await rpc.callServer('getBalance', { id: 1 }); // number
+     */
+    function typed<C extends RpcContract, E extends RpcEnvironment>(): TypedRpc<C, E, typeof rpc>;
+    function typed(): typeof rpc {
+        return rpc;
+    }
+
+    /**
+     * Gets a shared state that clients and browsers can subscribe to. It's created the first time it's asked for.
+     *
+     * Server-side environment only.
+     *
+     * @param name - The name of the state.
+     * @param player - Optional. Scopes the state to a player. Their subscriptions see it instead of the shared state of the same name.
+     * @returns The state.
+     */
+    function state<T = any>(name: string, player?: any): SharedState<T> {
+        requireNamespace();
+        if (environment !== 'server') throw 'state can only be used on the server';
+        if (arguments.length < 1 || arguments.length > 2) throw 'state expects 1 or 2 arguments: "name" and optional "player"';
+
+        let entry: StateEntry;
+
+        if (player) {
+            let states = rpcPlayerStates.get(player);
+            if (!states) rpcPlayerStates.set(player, states = {});
+
+            entry = states[name];
+
+            if (!entry) entry = states[name] = { value: undefined, version: 0, pending: true };
+        } else {
+            entry = rpcStates[name] = rpcStates[name] || { value: undefined, version: 0 };
+        }
+
+        const update = (value: any) => {
+            const patches = diff(entry.value, value);
+            entry.value = value;
+
+            // the player sees the shared state until now, so its own state replaces it as a whole
+            if (entry.pending) {
+                entry.pending = false;
+                entry.version++;
+                return publishState(name, entry, [[[], value]], true, player);
+            }
+
+            if (!patches.length) return;
+
+            entry.version++;
+            publishState(name, entry, patches, false, player);
+        };
+
+        return {
+            name,
+            get: () => entry.value,
+            set: value => update(value),
+            patch: changes => update({ ...entry.value, ...changes })
+        };
+    }
+
+    /**
+     * Subscribes to a shared state on the server. The callback receives the current value right away, and then every new one.
+     *
+     * Client-side or browser environment only.
+     *
+     * @param name - The name of the state.
+     * @param cb - Receives the value of the state.
+     * @returns A function that unsubscribes.
+     */
+    function subscribe<T = any>(name: string, cb: (value: T) => void): () => void {
+        requireNamespace();
+        if (environment === 'server') throw 'subscribe can only be used on the client or in the browser';
+        if (arguments.length !== 2) throw 'subscribe expects 2 arguments: "name" and "cb"';
+
+        const subscription = getSubscription(name);
+        subscription.listeners.push(cb);
+
+        if (subscription.replica.version !== -1) cb(subscription.replica.value);
+
+        return () => {
+            const idx = subscription.listeners.indexOf(cb);
+            if (idx === -1) return;
+
+            subscription.listeners.splice(idx, 1);
+            releaseSubscription(name);
+        };
+    }
+
+    /**
+     * Sends the changes of a state to everyone that sees it.
+     */
+    function publishState(name: string, entry: StateEntry, patches: StatePatch[], reset: boolean, player?: any) {
+        const subscribers = rpcStateSubscribers[name] || [];
+
+        const players = player
+            ? subscribers.filter(p => p === player)
+            : subscribers.filter(p => !getPlayerState(p, name));
+
+        players.forEach(p => _callClient(p, STATE_UPDATE, [name, entry.version, patches, +reset], { noRet: 1 }));
+    }
+
+    function subscribePlayer(name: string, player: any): [number, any] {
+        const subscribers = rpcStateSubscribers[name] = rpcStateSubscribers[name] || [];
+        if (!subscribers.includes(player)) subscribers.push(player);
+
+        const entry = getPlayerState(player, name) || rpcStates[name];
+
+        return entry ? [entry.version, entry.value] : [0, undefined];
+    }
+
+    function unsubscribePlayer(name: string, player: any) {
+        const subscribers = rpcStateSubscribers[name];
+        if (!subscribers) return;
+
+        const idx = subscribers.indexOf(player);
+        if (idx !== -1) subscribers.splice(idx, 1);
+
+        if (!subscribers.length) delete rpcStateSubscribers[name];
+    }
+
+    /**
+     * Gets the state a player sees instead of the shared one, once it has a value.
+     */
+    function getPlayerState(player: any, name: string): StateEntry | undefined {
+        const states = rpcPlayerStates.get(player);
+        const entry = states && states[name];
+
+        if (entry && !entry.pending) return entry;
+    }
+
+    function forgetStatesOf(player: any) {
+        rpcPlayerStates.delete(player);
+        Object.keys(rpcStateSubscribers).forEach(name => unsubscribePlayer(name, player));
+    }
+
+    function getSubscription(name: string): Subscription {
+        let subscription = rpcSubscriptions[name];
+
+        if (!subscription) {
+            const replica = createReplica(value => subscription.listeners.forEach(cb => cb(value)));
+
+            subscription = rpcSubscriptions[name] = { replica, listeners: [], browsers: [], ready: undefined };
+            fetchSnapshot(name, subscription);
+        }
+
+        return subscription;
+    }
+
+    /**
+     * Asks whoever we subscribe through for the current value of a state.
+     */
+    function fetchSnapshot(name: string, subscription: Subscription) {
+        const request = environment === 'client' ? _callServer(STATE_SUBSCRIBE, [name]) : _callClient(null, STATE_SUBSCRIBE, [name]);
+
+        subscription.ready = request.then(([version, value]: [number, any]) => {
+            if (rpcSubscriptions[name] !== subscription) return;
+            if (!subscription.replica.snapshot(version, value)) fetchSnapshot(name, subscription);
+        });
+
+        subscription.ready.catch(err => {
+            if (rpcSubscriptions[name] === subscription) log('warn', `Failed to subscribe to shared state "${name}": ${err && err.message}`, { state: name });
+        });
+    }
+
+    function receiveStateUpdate(name: string, version: number, patches: StatePatch[], reset: boolean) {
+        const subscription = rpcSubscriptions[name];
+        if (!subscription) return;
+
+        if (!subscription.replica.update(version, patches, reset)) fetchSnapshot(name, subscription);
+
+        subscription.browsers.forEach(browser => _callBrowser(browser, STATE_UPDATE, [name, version, patches, +reset], { noRet: 1 }));
+    }
+
+    async function subscribeBrowser(name: string, browser: any): Promise<[number, any]> {
+        const subscription = getSubscription(name);
+        if (!subscription.browsers.includes(browser)) subscription.browsers.push(browser);
+
+        // the snapshot might be requested again while we wait, or never arrive if everyone unsubscribed in the meantime
+        while (subscription.replica.version === -1) {
+            await subscription.ready;
+            if (rpcSubscriptions[name] !== subscription) throw createError('ABORTED', STATE_SUBSCRIBE);
+        }
+
+        return [subscription.replica.version, subscription.replica.value];
+    }
+
+    function unsubscribeBrowser(name: string, browser: any) {
+        const subscription = rpcSubscriptions[name];
+        if (!subscription) return;
+
+        const idx = subscription.browsers.indexOf(browser);
+        if (idx === -1) return;
+
+        subscription.browsers.splice(idx, 1);
+        releaseSubscription(name);
+    }
+
+    /**
+     * Unsubscribes from a state once nothing is listening to it anymore.
+     */
+    function releaseSubscription(name: string) {
+        const subscription = rpcSubscriptions[name];
+        if (!subscription || subscription.listeners.length || subscription.browsers.length) return;
+
+        delete rpcSubscriptions[name];
+
+        if (environment === 'client') _callServer(STATE_UNSUBSCRIBE, [name], { noRet: 1 });
+        else _callClient(null, STATE_UNSUBSCRIBE, [name], { noRet: 1 });
+    }
+
+    /**
+     * Waits until another environment has initialized RPC with the same namespace.
+     *
+     * Can be called from any environment.
+     *
+     * @param target - The player on the server, `server` or a browser on the client, or nothing to wait for the server on the client or the client in the browser.
+     * @param options - A timeout or an abort signal.
+     * @returns The environment, version and namespace of the other side.
+     */
+    function ready(target?: any, options: CallOptions = {}): Promise<PeerInfo> {
+        requireNamespace();
+        if (arguments.length > 2) return Promise.reject('ready expects up to 2 arguments: optional "target" and optional "options"');
+
+        const key = resolvePeer(target);
+        if (!key) return Promise.reject(environment === 'server' ? 'ready from the server expects a player' : `Unknown target "${target}"`);
+
+        return util.promiseCancellable(whenReady(key), options, reason => createError(reason));
+    }
+
+    /**
+     * Measures the round-trip time to another environment.
+     *
+     * Can be called from any environment.
+     *
+     * @param target - The same as for `ready`.
+     * @param options - Any options.
+     * @returns The round-trip time in milliseconds.
+     */
+    function ping(target?: any, options: CallOptions = {}): Promise<number> {
+        requireNamespace();
+        if (arguments.length > 2) return Promise.reject('ping expects up to 2 arguments: optional "target" and optional "options"');
+
+        const key = resolvePeer(target);
+        if (!key) return Promise.reject(environment === 'server' ? 'ping from the server expects a player' : `Unknown target "${target}"`);
+
+        const start = Date.now();
+
+        return callPeer(key, PING, undefined, {}, options).then(() => Date.now() - start);
+    }
+
+    /**
+     * Works out who `ready` or `ping` are about.
+     */
+    function resolvePeer(target: any): any {
+        switch (environment) {
+            case 'server':
+                return target;
+            case 'client':
+                if (!target || target === 'server') return 'server';
+                return typeof target === 'string' ? getWebView(target) : target;
+            case 'cef':
+                return !target || target === 'client' ? 'client' : undefined;
+        }
+    }
+
+    function getPeerKey(peer: Peer): any {
+        return peer.player || peer.webView || (environment === 'client' ? 'server' : 'client');
+    }
+
+    function callPeer(key: any, name: string, args: any, extraData: Partial<Event>, options: CallOptions = {}): Promise<any> {
+        switch (environment) {
+            case 'server':
+                return _callClient(key, name, args, extraData, options);
+            case 'client':
+                return key === 'server' ? _callServer(name, args, extraData, options) : _callBrowser(key, name, args, extraData, options);
+            case 'cef':
+                return _callClient(null, name, args, extraData, options);
+        }
+    }
+
+    function sayHello(key: any, reply = false) {
+        callPeer(key, HELLO, [{ version: VERSION, namespace: rpcNamespace }, +reply], { noRet: 1 });
+    }
+
+    function markReady(key: any, info: PeerInfo) {
+        rpcPeers.set(key, info);
+
+        const waiters = rpcPeerWaiters.get(key);
+        rpcPeerWaiters.delete(key);
+
+        if (waiters) waiters.forEach(waiter => waiter.resolve(info));
+    }
+
+    function whenReady(key: any): Promise<PeerInfo> {
+        const info = rpcPeers.get(key);
+        if (info) return Promise.resolve(info);
+
+        return new Promise((resolve, reject) => {
+            const waiters = rpcPeerWaiters.get(key) || [];
+            waiters.push({ resolve, reject });
+            rpcPeerWaiters.set(key, waiters);
+        });
+    }
+
+    /**
+     * Forgets that a peer was ready. Whoever waits for it is rejected, since it's gone for good.
+     */
+    function forgetPeer(key: any, reason: string) {
+        rpcPeers.delete(key);
+
+        const waiters = rpcPeerWaiters.get(key);
+        rpcPeerWaiters.delete(key);
+
+        if (waiters) waiters.forEach(waiter => waiter.reject(createError(reason)));
+    }
+
+    /**
+     * Changes which messages of this instance are logged, e.g. to get debug messages from a production build.
+     * Other instances keep their own levels.
+     *
+     * Can be called from any environment.
+     *
+     * @param level - The least important messages that are logged: `debug`, `info`, `warn`, `error` or `silent`.
+     * @param namespace - Only changes the level for this namespace, e.g. before the instance is initialized with it.
+     */
+    function setLogLevel(level: LogLevel, namespace?: string): void {
+        if (arguments.length < 1 || arguments.length > 2) throw 'setLogLevel expects 1 or 2 arguments: "level" and optional "namespace"';
+        requireAlive();
+
+        rpcLogLevels.set(level, namespace);
+    }
+
+    /**
+     * Gets what was measured about the calls that were made and handled so far, per procedure, route and direction.
+     * Internal traffic, such as events, isn't measured.
+     *
+     * Can be called from any environment.
+     */
+    function getMetrics(): RpcMetrics {
+        return {
+            environment,
+            namespace: rpcNamespace,
+            procedures: rpcMetrics.snapshot()
+        };
+    }
+
+    /**
+     * Gets the metrics in the Prometheus text format, e.g. to serve them to Prometheus from an HTTP server.
+     *
+     * Can be called from any environment.
+     */
+    function exportMetrics(): string {
+        return toPrometheus(rpcMetrics.snapshot(), { namespace: rpcNamespace, environment });
+    }
+
+    /**
+     * Gets the events that were sent and received recently. Requires the `inspector` init option.
+     *
+     * Can be called from any environment.
+     *
+     * @param filter - Which records to get.
+     * @returns The records, oldest first.
+     */
+    function getRecords(filter: RecordFilter = {}): RpcRecord[] {
+        if (!rpcInspector) throw 'getRecords requires the "inspector" init option';
+
+        return rpcInspector.records(filter);
+    }
+
+    /**
+     * Gets the events that were sent and received recently as JSON lines, e.g. to save them to a file.
+     *
+     * Can be called from any environment.
+     *
+     * @param filter - Which records to get.
+     */
+    function exportRecords(filter: RecordFilter = {}): string {
+        return inspector.toJsonLines(getRecords(filter));
+    }
+
+    /**
+     * Forgets the events that were recorded so far.
+     *
+     * Can be called from any environment.
+     */
+    function clearRecords(): void {
+        if (rpcInspector) rpcInspector.clear();
+    }
+
+    /**
+     * Sends the requests of a recording again, as they were received when it was made. The transport must be the one
+     * of the environment that sent them, e.g. a client transport of a memory network for a recording made on the server.
+     *
+     * Only records of incoming requests and cancellations are sent. Their arguments are only there if the inspector kept them.
+     *
+     * Can be called from any environment, and doesn't require `init`.
+     *
+     * @param records - The records, or JSON lines from `exportRecords`.
+     * @param transport - The transport to send them with.
+     * @param options - Where to send them, and how fast.
+     * @returns The number of events that were sent.
+     */
+    function replay(records: RpcRecord[] | string, transport: RpcTransport, options: ReplayOptions = {}): Promise<number> {
+        if (arguments.length < 2 || arguments.length > 3) return Promise.reject('replay expects 2 or 3 arguments: "records", "transport" and optional "options"');
+
+        const namespace = options.namespace || rpcNamespace;
+        if (!namespace) return Promise.reject('replay requires a namespace');
+
+        if (transport.environment === 'server' && !options.player) return Promise.reject('replay with a server transport expects a player');
+
+        const list = typeof records === 'string' ? inspector.fromJsonLines(records) : records;
+        const selected = list.filter(record => (
+            record.direction === 'in' && (record.kind === 'request' || record.kind === 'cancel') && record.env === transport.environment && record.route !== 'resource'
+        ));
+
+        if (transport.environment === 'client' && !options.webView && selected.some(record => record.route === 'webView')) {
+            return Promise.reject('replay of calls to browsers expects a webView');
+        }
+
+        const name = `${PROCESS_EVENT}::${namespace}`;
+
+        const send = (record: RpcRecord) => {
+            const event = { ...record.packet, part: 1, total: 1, args: record.args } as Event;
+
+            switch (transport.environment) {
+                case 'server':
+                    return transport.emitClient(options.player, name, event);
+                case 'client':
+                    return record.route === 'webView' ? transport.emitWebView(options.webView, name, event) : transport.emitServer(name, event);
+                case 'cef':
+                    return transport.emit(name, event);
+            }
+        };
+
+        const speed = typeof options.speed === 'number' ? options.speed : 1;
+
+        return inspector.play(selected, speed, options.signal, send).catch(reason => {
+            throw typeof reason === 'string' ? createError(reason) : reason;
+        });
+    }
+
+    /**
+     * Destroys this instance: its handlers are unbound, whatever is still in flight is rejected with `DESTROYED`
+     * and its namespace is released, so it can be claimed again, e.g. after a hot reload. It can't be used afterwards.
+     */
+    function destroy(): void {
+        if (rpcDestroyed) return;
+
+        rpcUnbinds.splice(0).forEach(unbind => unbind());
+
+        rpcBrowserCleanups.forEach(cleanup => cleanup());
+        rpcBrowserCleanups.clear();
+        rpcBrowsers.length = 0;
+        rpcBrowserIds.clear();
+        Object.keys(rpcBrowserProcedures).forEach(procedure => delete rpcBrowserProcedures[procedure]);
+
+        dropPeer(undefined, ERR_DESTROYED);
+        Array.from(rpcPeerWaiters.keys()).forEach(key => forgetPeer(key, ERR_DESTROYED));
+        rpcPeers.clear();
+
+        rpcOutboxes.clear();
+        if (rpcReaper) util.clearTimeout(rpcReaper);
+        if (rpcMetricsTimer) util.clearTimeout(rpcMetricsTimer);
+
+        if (rpcNamespace) {
+            if (rpcTransport.releaseNamespace) rpcTransport.releaseNamespace(rpcNamespace);
+            log('info', `Destroyed namespace "${rpcNamespace}"`);
+        }
+
+        rpcDestroyed = true;
+    }
+
+    const rpc = {
+        init,
+        addWebView,
+        removeWebView,
+        register,
+        unregister,
+        use,
+        batch,
+        call,
+        callServer,
+        callClient,
+        callClients,
+        callBrowsers,
+        callBrowsersOf,
+        callBrowser,
+        callPlayer,
+        callPlayerBrowsers,
+        callResource,
+        listProcedures,
+        queryProcedures,
+        hasProcedure,
+        state,
+        subscribe,
+        ready,
+        ping,
+        setLogLevel,
+        getMetrics,
+        exportMetrics,
+        getRecords,
+        exportRecords,
+        clearRecords,
+        replay,
+        on,
+        off,
+        trigger,
+        triggerServer,
+        triggerClient,
+        triggerClients,
+        triggerBrowsers,
+        triggerBrowsersOf,
+        triggerBrowser,
+        triggerPlayer,
+        triggerPlayerBrowsers,
+        typed,
+        destroy
+    };
+
+    if (options.namespace) init(options.namespace, options);
+    else if (options.transport) useTransport(options.transport);
+
+    return rpc;
+}
+
+/**
+ * An RPC instance, as created by `createRpc`.
+ */
+export type Rpc = ReturnType<typeof createRpc>;
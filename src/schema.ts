@@ -0,0 +1,87 @@
+/**
+ * Describes where and why a value doesn't match a schema.
+ */
+export interface SchemaError {
+    /** The path to the offending value, e.g. `args.items[2].name`. */
+    path: string;
+
+    /** What's wrong with the value. */
+    message: string;
+}
+
+/**
+ * Checks a value against a schema. Returns the first mismatch, or `undefined` if the value is valid.
+ *
+ * @param schema - the schema to check against
+ * @param value - the value to check
+ * @param isEntity - decides whether a value is an entity reference
+ * @param path - the path of the value, used in errors
+ */
+export function validate(schema: Schema, value: any, isEntity: (value: any) => boolean, path = 'args'): SchemaError | undefined {
+    const def = (typeof schema === 'string' ? { type: schema } : schema) as SchemaDefinition;
+    const fail = (message: string): SchemaError => ({ path, message });
+
+    // JSON turns undefined into null inside arrays
+    if (typeof value === 'undefined' || value === null) {
+        if (def.optional || def.type === 'any') return;
+        return fail('is required');
+    }
+
+    switch (def.type) {
+        case 'any':
+            return;
+        case 'string':
+            if (typeof value !== 'string') return fail('must be a string');
+            return checkBounds(def, value.length, 'characters', fail);
+        case 'number':
+            if (typeof value !== 'number' || !isFinite(value)) return fail('must be a number');
+            if (def.integer && Math.floor(value) !== value) return fail('must be an integer');
+            if (typeof def.min === 'number' && value < def.min) return fail(`must be at least ${def.min}`);
+            if (typeof def.max === 'number' && value > def.max) return fail(`must be at most ${def.max}`);
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean') return fail('must be a boolean');
+            return;
+        case 'entity':
+            if (!isEntity(value)) return fail('must be an entity');
+            return;
+        case 'enum':
+            if (!def.values.includes(value)) return fail(`must be one of ${def.values.map(v => JSON.stringify(v)).join(', ')}`);
+            return;
+        case 'array': {
+            if (!Array.isArray(value)) return fail('must be an array');
+
+            const err = checkBounds(def, value.length, 'items', fail);
+            if (err || !def.items) return err;
+
+            for (let i = 0; i < value.length; i++) {
+                const itemErr = validate(def.items, value[i], isEntity, `${path}[${i}]`);
+                if (itemErr) return itemErr;
+            }
+            return;
+        }
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) return fail('must be an object');
+
+            const props = def.props || {};
+
+            for (const key of Object.keys(props)) {
+                const propErr = validate(props[key], value[key], isEntity, `${path}.${key}`);
+                if (propErr) return propErr;
+            }
+
+            if (def.strict) {
+                const unknown = Object.keys(value).find(key => !props.hasOwnProperty(key));
+                if (unknown) return { path: `${path}.${unknown}`, message: 'is not allowed' };
+            }
+            return;
+        }
+        default:
+            return fail(`has an unknown schema type "${(def as any).type}"`);
+    }
+}
+
+function checkBounds(def: { min?: number, max?: number }, length: number, unit: string, fail: (message: string) => SchemaError) {
+    if (typeof def.min === 'number' && length < def.min) return fail(`must have at least ${def.min} ${unit}`);
+    if (typeof def.max === 'number' && length > def.max) return fail(`must have at most ${def.max} ${unit}`);
+}
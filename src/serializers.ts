@@ -0,0 +1,219 @@
+import * as util from './util';
+
+declare const BigInt: (value: string) => any;
+
+const TYPED_ARRAYS = [
+    'Int8Array',
+    'Uint8Array',
+    'Uint8ClampedArray',
+    'Int16Array',
+    'Uint16Array',
+    'Int32Array',
+    'Uint32Array',
+    'Float32Array',
+    'Float64Array'
+];
+
+// JSON.parse drops whatever a reviver turns into undefined, so it's swapped in once the parent is revived
+const UNDEFINED = {};
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Plain JSON. Entities are sent as `{ __i: id }`, everything else JSON doesn't know about is mangled.
+ */
+export const jsonSerializer: RpcSerializer = {
+    name: 'json',
+    serialize(value, transport) {
+        return JSON.stringify(value, (_, value) => {
+            const id = transport.encodeEntity && value && typeof value === 'object' ? transport.encodeEntity(value) : undefined;
+
+            if (typeof id === 'number') {
+                return {
+                    __i: id
+                };
+            }
+
+            return value;
+        });
+    },
+    deserialize(data, transport) {
+        return JSON.parse(data, (_, value) => {
+            if (transport.decodeEntity && value && typeof value === 'object' && typeof value.__i === 'number' && Object.keys(value).length === 1) {
+                return transport.decodeEntity(value.__i);
+            }
+
+            return value;
+        });
+    }
+};
+
+/**
+ * JSON with tagged values, so that dates, maps, sets, bigints, `undefined`, special numbers, typed arrays
+ * and alt:V vectors and colors survive the trip. A tagged value looks like `{ __t: 'Date', v: 1577836800000 }`.
+ */
+export const extendedSerializer: RpcSerializer = {
+    name: 'extended',
+    serialize(value, transport) {
+        return JSON.stringify(value, function (key, value) {
+            // JSON calls toJSON before we get to see the value, so look at the original
+            const raw = this[key];
+
+            return encodeValue(raw, transport);
+        });
+    },
+    deserialize(data, transport) {
+        const value = JSON.parse(data, (_, value) => decodeValue(value, transport));
+        return value === UNDEFINED ? undefined : value;
+    }
+};
+
+function tag(type: string, v: any) {
+    return { __t: type, v };
+}
+
+function encodeValue(value: any, transport: RpcTransport): any {
+    switch (typeof value) {
+        case 'undefined':
+            return tag('undefined', 0);
+        case 'bigint':
+            return tag('BigInt', value.toString());
+        case 'number':
+            if (isFinite(value) && !Object.is(value, -0)) return value;
+            return tag('Number', String(value === 0 ? '-0' : value));
+        case 'object':
+            break;
+        default:
+            return value;
+    }
+
+    if (value === null) return value;
+
+    const id = transport.encodeEntity ? transport.encodeEntity(value) : undefined;
+    if (typeof id === 'number') return tag('Entity', id);
+
+    if (value instanceof Date) return tag('Date', value.getTime());
+    if (value instanceof Map) return tag('Map', Array.from(value.entries()));
+    if (value instanceof Set) return tag('Set', Array.from(value.values()));
+    if (value instanceof ArrayBuffer) return tag('ArrayBuffer', toBase64(new Uint8Array(value)));
+
+    if (ArrayBuffer.isView(value)) {
+        const type = value.constructor.name;
+
+        if (TYPED_ARRAYS.includes(type)) {
+            return tag(type, toBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)));
+        }
+    }
+
+    const alt = util.getAlt();
+
+    if (alt) {
+        if (alt.Vector3 && value instanceof alt.Vector3) return tag('Vector3', [value.x, value.y, value.z]);
+        if (alt.Vector2 && value instanceof alt.Vector2) return tag('Vector2', [value.x, value.y]);
+        if (alt.RGBA && value instanceof alt.RGBA) return tag('RGBA', [value.r, value.g, value.b, value.a]);
+    }
+
+    // plain objects that look like a tag are escaped as their entries
+    if (!Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, '__t')) {
+        return tag('Object', Object.keys(value).map(key => [key, value[key]]));
+    }
+
+    return value;
+}
+
+function decodeValue(value: any, transport: RpcTransport): any {
+    if (value && typeof value === 'object') {
+        Object.keys(value).forEach(key => {
+            if (value[key] === UNDEFINED) value[key] = undefined;
+        });
+    }
+
+    if (!value || typeof value !== 'object' || typeof value.__t !== 'string' || !('v' in value) || Object.keys(value).length !== 2) {
+        return value;
+    }
+
+    const v = value.v;
+    const alt = util.getAlt();
+
+    switch (value.__t) {
+        case 'undefined':
+            return UNDEFINED;
+        case 'BigInt':
+            return BigInt(v);
+        case 'Number':
+            return v === '-0' ? -0 : Number(v);
+        case 'Entity':
+            return transport.decodeEntity ? transport.decodeEntity(v) : undefined;
+        case 'Date':
+            return new Date(v);
+        case 'Map':
+            return new Map(v);
+        case 'Set':
+            return new Set(v);
+        case 'ArrayBuffer':
+            return fromBase64(v).buffer;
+        case 'Vector3':
+            return alt && alt.Vector3 ? new alt.Vector3(v[0], v[1], v[2]) : { x: v[0], y: v[1], z: v[2] };
+        case 'Vector2':
+            return alt && alt.Vector2 ? new alt.Vector2(v[0], v[1]) : { x: v[0], y: v[1] };
+        case 'RGBA':
+            return alt && alt.RGBA ? new alt.RGBA(v[0], v[1], v[2], v[3]) : { r: v[0], g: v[1], b: v[2], a: v[3] };
+        case 'Object': {
+            const obj: any = {};
+            v.forEach(([key, val]: [string, any]) => obj[key] = val);
+            return obj;
+        }
+    }
+
+    if (TYPED_ARRAYS.includes(value.__t)) {
+        const bytes = fromBase64(v);
+        const Ctor = getTypedArray(value.__t);
+
+        return new Ctor(bytes.buffer, 0, bytes.byteLength / Ctor.BYTES_PER_ELEMENT);
+    }
+
+    return value;
+}
+
+/**
+ * Looks up a typed array constructor by its name. Unlike the global object the namespaces are kept on,
+ * `globalThis` is fine here, since every environment has the same constructors.
+ */
+function getTypedArray(name: string): any {
+    const scope: any = typeof globalThis !== 'undefined' ? globalThis : typeof window !== 'undefined' ? window : global;
+    return scope[name];
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let out = '';
+
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+
+        out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63];
+        out += i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=';
+        out += i + 2 < bytes.length ? BASE64[n & 63] : '=';
+    }
+
+    return out;
+}
+
+function fromBase64(str: string): Uint8Array {
+    const clean = str.replace(/=+$/, '');
+    const bytes = new Uint8Array((clean.length * 3) >> 2);
+    let n = 0;
+    let bits = 0;
+    let idx = 0;
+
+    for (let i = 0; i < clean.length; i++) {
+        n = (n << 6) | BASE64.indexOf(clean[i]);
+        bits += 6;
+
+        if (bits >= 8) {
+            bits -= 8;
+            bytes[idx++] = (n >> bits) & 255;
+        }
+    }
+
+    return bytes;
+}
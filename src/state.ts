@@ -0,0 +1,136 @@
+/**
+ * A change to a shared state: `[path, value]` sets the value at the path, `[path]` deletes it.
+ * An empty path stands for the whole state.
+ */
+export type StatePatch = [string[]] | [string[], any];
+
+/**
+ * A copy of a shared state that is kept up to date with patches.
+ */
+export interface Replica {
+    /** The current value. */
+    readonly value: any;
+
+    /** The version of the current value, or `-1` while waiting for a snapshot. */
+    readonly version: number;
+
+    /** Replaces the value with a snapshot. Updates that arrived while waiting for it are applied on top. */
+    snapshot(version: number, value: any): boolean;
+
+    /** Applies an update. Returns `false` if an update was missed, in which case a new snapshot is needed. */
+    update(version: number, patches: StatePatch[], reset?: boolean): boolean;
+}
+
+/**
+ * Works out the patches that turn one value into another. Plain objects are compared key by key,
+ * everything else is replaced as a whole if it changed.
+ */
+export function diff(prev: any, next: any, path: string[] = []): StatePatch[] {
+    if (prev === next) return [];
+
+    if (isPlainObject(prev) && isPlainObject(next)) {
+        const patches: StatePatch[] = [];
+
+        Object.keys(prev).forEach(key => {
+            if (!(key in next) || typeof next[key] === 'undefined') {
+                if (typeof prev[key] !== 'undefined') patches.push([path.concat(key)]);
+            }
+        });
+
+        Object.keys(next).forEach(key => {
+            if (typeof next[key] !== 'undefined') patches.push(...diff(prev[key], next[key], path.concat(key)));
+        });
+
+        return patches;
+    }
+
+    if (isEqual(prev, next)) return [];
+
+    return [typeof next === 'undefined' ? [path] : [path, next]];
+}
+
+/**
+ * Applies patches without touching the original value. Objects along each path are copied.
+ */
+export function applyPatches(value: any, patches: StatePatch[]): any {
+    return patches.reduce((value, patch) => applyPatch(value, patch[0], patch.length > 1, patch[1]), value);
+}
+
+/**
+ * Creates a replica that calls `onChange` with every new value.
+ */
+export function createReplica(onChange: (value: any) => void): Replica {
+    let queued: [number, StatePatch[], boolean][] = [];
+
+    const replica = {
+        value: undefined as any,
+        version: -1,
+        snapshot(version: number, value: any) {
+            replica.value = value;
+            replica.version = version;
+            onChange(value);
+
+            return queued.splice(0).every(([version, patches, reset]) => replica.update(version, patches, reset));
+        },
+        update(version: number, patches: StatePatch[], reset = false) {
+            if (replica.version === -1) {
+                queued.push([version, patches, reset]);
+                return true;
+            }
+
+            if (!reset) {
+                // already part of the snapshot
+                if (version <= replica.version) return true;
+
+                if (version !== replica.version + 1) {
+                    replica.version = -1;
+                    queued = [];
+                    return false;
+                }
+            }
+
+            replica.value = applyPatches(replica.value, patches);
+            replica.version = version;
+            onChange(replica.value);
+
+            return true;
+        }
+    };
+
+    return replica;
+}
+
+function applyPatch(value: any, path: string[], set: boolean, patchValue: any): any {
+    if (!path.length) return set ? patchValue : undefined;
+
+    const [key, ...rest] = path;
+    const copy = isPlainObject(value) ? { ...value } : {};
+    const next = applyPatch(copy[key], rest, set, patchValue);
+
+    if (typeof next === 'undefined') delete copy[key];
+    else copy[key] = next;
+
+    return copy;
+}
+
+function isPlainObject(value: any): boolean {
+    if (!value || typeof value !== 'object') return false;
+
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+function isEqual(a: any, b: any): boolean {
+    if (a === b || (a !== a && b !== b)) return true;
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, idx) => isEqual(item, b[idx]));
+    }
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]));
+    }
+
+    return false;
+}
@@ -0,0 +1,120 @@
+const asyncIterator: symbol = (Symbol as any).asyncIterator;
+
+/**
+ * The receiving end of a streamed result.
+ */
+export interface StreamSink {
+    /** What the caller consumes. */
+    stream: RpcStream;
+
+    /** Adds a chunk. */
+    push(value: any): void;
+
+    /** Ends the stream after the chunks that were already pushed. */
+    end(): void;
+
+    /** Makes the stream throw after the chunks that were already pushed. */
+    fail(err: any): void;
+}
+
+/**
+ * Checks whether a value can be iterated with `for await`.
+ */
+export function isAsyncIterable(value: any): boolean {
+    return !!value && typeof value[asyncIterator] === 'function';
+}
+
+/**
+ * Reads an async iterable until it's done or the signal is aborted, handing each chunk to `send`.
+ */
+export async function pipe(iterable: any, signal: RpcAbortSignal, send: (value: any) => void): Promise<void> {
+    const iterator = iterable[asyncIterator]();
+
+    while (!signal.aborted) {
+        const { value, done } = await iterator.next();
+        if (done) return;
+
+        // the consumer might have left while we were waiting
+        if (signal.aborted) break;
+
+        send(value);
+    }
+
+    // let the iterator clean up, e.g. run the finally block of an async generator
+    if (typeof iterator.return === 'function') {
+        Promise.resolve(iterator.return()).catch((): void => undefined);
+    }
+}
+
+/**
+ * Creates a stream that buffers chunks until they're consumed.
+ *
+ * @param onCancel - called if the consumer stops reading before the stream ended
+ */
+export function createStream(onCancel: () => void): StreamSink {
+    const buffered: any[] = [];
+    const waiting: { resolve: (result: any) => void, reject: (err: any) => void }[] = [];
+    const done = () => ({ done: true, value: undefined as any });
+
+    let finished = false;
+    let error: any;
+
+    const stream: any = {
+        next() {
+            if (buffered.length) return Promise.resolve({ done: false, value: buffered.shift() });
+
+            if (typeof error !== 'undefined') {
+                const err = error;
+                error = undefined;
+                return Promise.reject(err);
+            }
+
+            if (finished) return Promise.resolve(done());
+
+            return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+        },
+        return() {
+            if (!finished) {
+                finished = true;
+                onCancel();
+            }
+
+            buffered.length = 0;
+            error = undefined;
+            waiting.splice(0).forEach(w => w.resolve(done()));
+
+            return Promise.resolve(done());
+        },
+        [asyncIterator]() {
+            return stream;
+        }
+    };
+
+    return {
+        stream,
+        push(value) {
+            if (finished) return;
+
+            const next = waiting.shift();
+            if (next) next.resolve({ done: false, value });
+            else buffered.push(value);
+        },
+        end() {
+            if (finished) return;
+
+            finished = true;
+            waiting.splice(0).forEach(w => w.resolve(done()));
+        },
+        fail(err) {
+            if (finished) return;
+
+            finished = true;
+
+            const next = waiting.shift();
+            if (next) next.reject(err);
+            else error = err;
+
+            waiting.splice(0).forEach(w => w.resolve(done()));
+        }
+    };
+}
@@ -0,0 +1,53 @@
+import alt from 'alt';
+import * as util from '../util';
+
+/**
+ * Gets the current alt:V execution environment.
+ */
+function getEnvironment(): string {
+    if (!alt) return;
+    if (!alt.Player) return 'cef';
+    else if (alt.Player.local) return 'client';
+    else if (alt.Player) return 'server';
+}
+
+/**
+ * Creates the default transport, which talks to other environments through the alt:V API.
+ */
+export function createAltTransport(): RpcTransport {
+    const environment = getEnvironment();
+    if (!environment) throw 'Unknown alt:V environment';
+
+    util.useAlt(alt);
+
+    const transport: RpcTransport = {
+        environment,
+        emit: (name, data) => alt.emit(name, data),
+        on: (name, cb) => alt.on(name, cb),
+        off: (name, cb) => alt.off(name, cb),
+        emitServer: (name, data) => alt.emitServer(name, data),
+        onServer: (name, cb) => alt.onServer(name, cb),
+        offServer: (name, cb) => alt.offServer(name, cb),
+        emitClient: (player, name, data) => alt.emitClient(player, name, data),
+        onClient: (name, cb) => alt.onClient(name, cb),
+        offClient: (name, cb) => alt.offClient(name, cb),
+        onPlayerDisconnect: cb => alt.on('playerDisconnect', cb),
+        offPlayerDisconnect: cb => alt.off('playerDisconnect', cb),
+        getPlayers: () => alt.Player.all,
+        emitWebView: (webView, name, data) => webView.emit(name, data),
+        onWebView: (webView, name, cb) => webView.on(name, cb),
+        offWebView: (webView, name, cb) => webView.off(name, cb),
+        requestNamespace: namespace => util.requestNamespace(namespace),
+        releaseNamespace: namespace => util.releaseNamespace(namespace)
+    };
+
+    // entities and resources only exist in the game environments
+    if (environment !== 'cef') {
+        transport.encodeEntity = value => value instanceof alt.Entity ? value.id : undefined;
+        transport.decodeEntity = id => alt.Entity.getByID(id);
+        transport.resource = alt.resourceName;
+        transport.hasResource = name => alt.hasResource(name);
+    }
+
+    return transport;
+}
@@ -0,0 +1,259 @@
+type Handler = (...args: any[]) => void;
+
+/**
+ * A set of named event handlers.
+ */
+interface Bus {
+    on(name: string, cb: Handler): void;
+    off(name: string, cb: Handler): void;
+    emit(name: string, ...args: any[]): void;
+}
+
+/**
+ * A simulated client connected to a memory network.
+ */
+export interface MemoryClient {
+    /** The player object that represents this client on the server. */
+    player: any;
+
+    /** The transport to initialize the client's RPC with. Its resource is called `main`. */
+    transport: RpcTransport;
+
+    /** Creates a webview owned by this client. */
+    addWebView(): MemoryWebView;
+
+    /** Starts another resource on this client. Returns the transport to initialize its RPC with. */
+    addResource(name: string): RpcTransport;
+
+    /** Disconnects the client from the server. */
+    disconnect(): void;
+}
+
+/**
+ * A simulated webview owned by a memory client.
+ */
+export interface MemoryWebView {
+    /** The webview object to pass to `addWebView` on the client. */
+    webView: any;
+
+    /** The transport to initialize the browser's RPC with. */
+    transport: RpcTransport;
+
+    /** Destroys the webview. Events sent to or from it are dropped afterwards. */
+    destroy(): void;
+}
+
+/**
+ * A simulated server, its clients and their webviews, all within a single process.
+ */
+export interface MemoryNetwork {
+    /** The transport to initialize the server's RPC with. Its resource is called `main`. */
+    server: RpcTransport;
+
+    /** Connects a new client to the server. */
+    addClient(): MemoryClient;
+
+    /** Starts another resource on the server. Returns the transport to initialize its RPC with. */
+    addResource(name: string): RpcTransport;
+
+    /** Registers an object as an entity so it can be sent across the network. Returns its ID. */
+    addEntity(entity: any): number;
+}
+
+function createBus(async: boolean): Bus {
+    const handlers: { [prop: string]: Set<Handler> } = {};
+
+    return {
+        on(name, cb) {
+            const set = handlers[name] || new Set();
+            set.add(cb);
+            handlers[name] = set;
+        },
+        off(name, cb) {
+            const set = handlers[name];
+            if (set) set.delete(cb);
+        },
+        emit(name, ...args) {
+            const set = handlers[name];
+            if (!set) return;
+
+            // events crossing environments are delivered asynchronously, like they are in game
+            const dispatch = () => set.forEach(cb => cb(...args));
+            if (async) Promise.resolve().then(dispatch);
+            else dispatch();
+        }
+    };
+}
+
+function createNamespaces() {
+    const claimed = new Set<string>();
+
+    return {
+        requestNamespace(namespace: string) {
+            if (claimed.has(namespace)) return false;
+            claimed.add(namespace);
+            return true;
+        },
+        releaseNamespace(namespace: string) {
+            claimed.delete(namespace);
+        }
+    };
+}
+
+/**
+ * Creates an in-memory network of transports. Useful for testing procedures outside of alt:V.
+ */
+export function createMemoryNetwork(): MemoryNetwork {
+    const entities: Map<number, any> = new Map();
+    let nextEntityId = 0;
+
+    const addEntity = (entity: any) => {
+        const id = nextEntityId++;
+        entities.set(id, entity);
+        entity.id = id;
+        return id;
+    };
+
+    const encodeEntity = (value: any) => entities.get(value.id) === value ? value.id : undefined;
+    const decodeEntity = (id: number) => entities.get(id);
+
+    const clients: Map<any, { fromServer: Bus }> = new Map();
+
+    const serverLocal = createBus(false);
+    const fromClients = createBus(true);
+    const disconnects = createBus(true);
+
+    const serverResources = new Set<string>();
+
+    // every resource has its own transport, but they share the server
+    const addServerResource = (resource: string): RpcTransport => {
+        serverResources.add(resource);
+
+        return {
+            environment: 'server',
+            emit: serverLocal.emit,
+            on: serverLocal.on,
+            off: serverLocal.off,
+            emitClient: (player, name, data) => {
+                const client = clients.get(player);
+                if (client) client.fromServer.emit(name, data);
+            },
+            onClient: fromClients.on,
+            offClient: fromClients.off,
+            onPlayerDisconnect: cb => disconnects.on('disconnect', cb),
+            offPlayerDisconnect: cb => disconnects.off('disconnect', cb),
+            getPlayers: () => Array.from(clients.keys()),
+            encodeEntity,
+            decodeEntity,
+            resource,
+            hasResource: name => serverResources.has(name),
+            ...createNamespaces()
+        };
+    };
+
+    const server = addServerResource('main');
+
+    const addClient = (): MemoryClient => {
+        const player: any = { valid: true };
+        addEntity(player);
+
+        const clientLocal = createBus(false);
+        const fromServer = createBus(true);
+        const webViews: Map<any, { fromClient: Bus, fromWebView: Bus }> = new Map();
+
+        const clientResources = new Set<string>();
+
+        clients.set(player, { fromServer });
+
+        const addClientResource = (resource: string): RpcTransport => {
+            clientResources.add(resource);
+
+            return {
+                environment: 'client',
+                emit: clientLocal.emit,
+                on: clientLocal.on,
+                off: clientLocal.off,
+                emitServer: (name, data) => {
+                    if (player.valid) fromClients.emit(name, player, data);
+                },
+                onServer: fromServer.on,
+                offServer: fromServer.off,
+                emitWebView: (webView, name, data) => {
+                    const buses = webViews.get(webView);
+                    if (buses) buses.fromClient.emit(name, data);
+                },
+                onWebView: (webView, name, cb) => {
+                    const buses = webViews.get(webView);
+                    if (buses) buses.fromWebView.on(name, cb);
+                },
+                offWebView: (webView, name, cb) => {
+                    const buses = webViews.get(webView);
+                    if (buses) buses.fromWebView.off(name, cb);
+                },
+                encodeEntity,
+                decodeEntity,
+                resource,
+                hasResource: name => clientResources.has(name),
+                ...createNamespaces()
+            };
+        };
+
+        const transport = addClientResource('main');
+
+        const addWebView = (): MemoryWebView => {
+            const webView: any = { valid: true };
+            const buses = {
+                fromClient: createBus(true),
+                fromWebView: createBus(true)
+            };
+
+            webViews.set(webView, buses);
+
+            const destroy = () => {
+                webView.valid = false;
+                webViews.delete(webView);
+            };
+
+            return {
+                webView,
+                transport: {
+                    environment: 'cef',
+                    emit: (name, data) => {
+                        if (webView.valid) buses.fromWebView.emit(name, data);
+                    },
+                    on: buses.fromClient.on,
+                    off: buses.fromClient.off,
+                    ...createNamespaces()
+                },
+                destroy
+            };
+        };
+
+        const disconnect = () => {
+            if (!player.valid) return;
+
+            player.valid = false;
+            clients.delete(player);
+            entities.delete(player.id);
+            webViews.forEach((_, webView) => webView.valid = false);
+            webViews.clear();
+
+            disconnects.emit('disconnect', player);
+        };
+
+        return {
+            player,
+            transport,
+            addWebView,
+            addResource: addClientResource,
+            disconnect
+        };
+    };
+
+    return {
+        server,
+        addClient,
+        addResource: addServerResource,
+        addEntity
+    };
+}
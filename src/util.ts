@@ -1,7 +1,29 @@
-import alt from 'alt';
-
 const glob = getGlobal();
-const setTimeout = alt.setTimeout || glob.setTimeout;
+
+let alt: any; // the alt:V API, once the alt:V transport was loaded. Nothing else imports it, so the rest runs anywhere
+
+/**
+ * Hands the alt:V API to everything that uses it if it's there, such as timers and logging.
+ */
+export function useAlt(api: any) {
+    alt = api;
+}
+
+/**
+ * Gets the alt:V API, or nothing outside of alt:V.
+ */
+export function getAlt(): any {
+    return alt;
+}
+
+export function setTimeout(cb: () => void, ms: number): any {
+    return alt && alt.setTimeout ? alt.setTimeout(cb, ms) : glob.setTimeout(cb, ms);
+}
+
+export function clearTimeout(timer: any) {
+    if (alt && alt.clearTimeout) alt.clearTimeout(timer);
+    else glob.clearTimeout(timer);
+}
 
 /**
  * Generates a random ID.
@@ -15,63 +37,76 @@ export function uid(): string {
 }
 
 /**
- * Gets the current execution environment.
+ * Waits for a promise to be settled, a timeout or an aborted signal, whichever comes first.
+ *
+ * If the promise was cut short, it's rejected with what `onCancel` returns for the reason (`TIMEOUT` or `ABORTED`),
+ * or the reason itself.
  */
-export function getEnvironment(): string {
-    if (!alt.Player) return 'cef';
-    else if (alt.Player.local) return 'client';
-    else if (alt.Player) return 'server';
-}
+export function promiseCancellable(promise: Promise<any>, options: { timeout?: number, signal?: RpcAbortSignal }, onCancel?: (reason: string) => any): Promise<any> {
+    const { timeout, signal } = options;
+    if (typeof timeout !== 'number' && !signal) return promise;
 
-/**
- * Stringifies an event's data for transmission.
- */
-export function stringifyData(data: any): string {
-    const env = getEnvironment();
-
-    return JSON.stringify(data, (_, value) => {
-        if ((env === 'client' || env === 'server') && value instanceof alt.Entity) {
-            return {
-                __i: value.id
-            };
+    return new Promise((resolve, reject) => {
+        let timer: any;
+
+        const cleanup = () => {
+            if (timer) clearTimeout(timer);
+            if (signal) signal.removeEventListener('abort', onAbort);
+        };
+
+        const cancel = (reason: string) => {
+            cleanup();
+            reject(onCancel ? onCancel(reason) : reason);
+        };
+
+        const onAbort = () => cancel('ABORTED');
+
+        if (signal) {
+            if (signal.aborted) return cancel('ABORTED');
+            signal.addEventListener('abort', onAbort);
+        }
+
+        if (typeof timeout === 'number') {
+            timer = setTimeout(() => cancel('TIMEOUT'), timeout);
         }
 
-        return value;
+        promise.then(res => {
+            cleanup();
+            resolve(res);
+        }, err => {
+            cleanup();
+            reject(err);
+        });
     });
 }
 
 /**
- * Turns stringified event data back into a JS object.
+ * Creates a minimal abort controller, since not every alt:V environment provides one.
  */
-export function parseData(data: string): any {
-    const env = getEnvironment();
+export function createAbortController(): { signal: RpcAbortSignal, abort: (reason?: any) => void } {
+    const listeners = new Set<() => void>();
+
+    const signal: RpcAbortSignal = {
+        aborted: false,
+        addEventListener: (type, listener) => {
+            if (type === 'abort') listeners.add(listener);
+        },
+        removeEventListener: (type, listener) => {
+            if (type === 'abort') listeners.delete(listener);
+        }
+    };
 
-    try {
-        return JSON.parse(data, (_, value) => {
-            if ((env === 'client' || env === 'server') && value && typeof value === 'object' && typeof value.__i === 'number' && Object.keys(value).length === 1) {
-                return alt.Entity.getByID(value.__i);
-            }
+    const abort = (reason?: any) => {
+        if (signal.aborted) return;
 
-            return value;
-        });
-    } catch (e) {
-        log(`Failed to parse event arguments: ${e.message}`, true);
-        log(data, true);
-    }
-}
+        signal.aborted = true;
+        signal.reason = reason;
 
-/**
- * Waits for a promise to be settled or a timeout, whichever comes first.
- */
-export function promiseTimeout(promise: Promise<any>, timeout?: number){
-    if (typeof timeout === 'number') {
-        return Promise.race([
-            new Promise((_, reject) => {
-                setTimeout(() => reject('TIMEOUT'), timeout);
-            }),
-            promise
-        ]);
-    } else return promise;
+        listeners.forEach(listener => listener());
+        listeners.clear();
+    };
+
+    return { signal, abort };
 }
 
 /**
@@ -102,7 +137,7 @@ export function requestNamespace(ns: string) {
 
         glob[key] = list;
     } else {
-        const ply = alt.Player.local;
+        const ply = alt && alt.Player.local;
 
         if (ply) {
             const raw = ply.getMeta(key);
@@ -117,17 +152,46 @@ export function requestNamespace(ns: string) {
     return true;
 }
 
-export function log(data: string, always = false) {
-    const env = getEnvironment();
+/**
+ * Releases a namespace claimed with `requestNamespace`, so it can be requested again.
+ */
+export function releaseNamespace(ns: string) {
+    const key = '__rpc:namespaces';
+
+    if (glob) {
+        const list: string[] = glob[key] || [];
+        glob[key] = list.filter(entry => entry !== ns);
+    } else {
+        const ply = alt && alt.Player.local;
+
+        if (ply) {
+            const raw = ply.getMeta(key);
+            const list: string[] = raw ? JSON.parse(raw) : [];
 
-    if (always || process.env.NODE_ENV !== 'production') {
-        (alt.log || console.log)(`RPC (${env}): ${data}`);
+            ply.setMeta(key, JSON.stringify(list.filter(entry => entry !== ns)));
+        }
     }
 }
 
 /**
- * Splits a string into an array of chunks.
+ * Splits a string into chunks of at most `size` characters. Surrogate pairs are kept together.
  */
-export function chunk(data: string) {
-    return data.match(/.{1,10000}/g);
+export function chunk(data: string, size: number): string[] {
+    if (!size || data.length <= size) return [data];
+
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < data.length) {
+        let end = Math.min(start + size, data.length);
+
+        // don't leave half of a character at the end of a chunk
+        const last = data.charCodeAt(end - 1);
+        if (end < data.length && end - start > 1 && last >= 0xD800 && last <= 0xDBFF) end--;
+
+        chunks.push(data.slice(start, end));
+        start = end;
+    }
+
+    return chunks;
 }
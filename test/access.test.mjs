@@ -0,0 +1,55 @@
+// Refuses calls from environments a procedure doesn't allow, and hides those procedures from them.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+const warnings = [];
+const logger = {
+    debug: () => {},
+    info: () => {},
+    warn: message => warnings.push(message),
+    error: () => {}
+};
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, logger, logLevel: 'warn' });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+server.register('fromClient', () => 'client only', { allow: ['client'] });
+server.register('fromBrowser', () => 'browser only', { allow: ['cef'] });
+server.register('open', () => 'anyone');
+await tick();
+
+assert.strictEqual(await clientRpc.callServer('fromClient'), 'client only');
+assert.strictEqual(await browserRpc.callServer('fromBrowser'), 'browser only');
+assert.strictEqual(await browserRpc.callServer('open'), 'anyone');
+
+await assert.rejects(browserRpc.callServer('fromClient'), err => err.code === 'FORBIDDEN');
+await assert.rejects(clientRpc.callServer('fromBrowser'), err => err.code === 'FORBIDDEN');
+assert.strictEqual(warnings.length, 2);
+
+// a caller only sees what it may call, and looking isn't a refusal
+const names = procedures => procedures.map(procedure => procedure.name).sort();
+assert.deepStrictEqual(names(await clientRpc.queryProcedures('server')), ['fromClient', 'open']);
+assert.deepStrictEqual(names(await browserRpc.queryProcedures('server')), ['fromBrowser', 'open']);
+assert.strictEqual(await clientRpc.hasProcedure('fromBrowser', 'server'), false);
+assert.strictEqual(warnings.length, 2);
+
+// players can't reach each other unless the server relays for them
+const other = network.addClient();
+const otherRpc = createRpc({ namespace: 'test', transport: other.transport, ...quiet });
+otherRpc.register('secret', () => 'leaked');
+await tick();
+await assert.rejects(clientRpc.callPlayer(other.player, 'secret'), err => err.code === 'FORBIDDEN');
+
+server.destroy();
+clientRpc.destroy();
+browserRpc.destroy();
+otherRpc.destroy();
@@ -0,0 +1,96 @@
+// Sends the calls made together to the same destination in a single packet, and their results back the same way.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+// the size of every packet on each hop: 1 for a single event, or the length of a batch
+const packets = { toServer: [], toClient: [], fromBrowser: [], toBrowser: [] };
+const size = data => Array.isArray(data) ? data.length : 1;
+network.server.onClient('__rpc:process::test', (player, data) => packets.toServer.push(size(data)));
+client.transport.onServer('__rpc:process::test', data => packets.toClient.push(size(data)));
+client.transport.onWebView(browser.webView, '__rpc:process::test', data => packets.fromBrowser.push(size(data)));
+browser.transport.on('__rpc:process::test', data => packets.toBrowser.push(size(data)));
+const reset = () => Object.keys(packets).forEach(hop => packets[hop] = []);
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+server.register('getProfile', () => 'profile');
+server.register('getInventory', () => 'inventory');
+server.register('getSettings', () => { throw new RpcError('NO_SETTINGS', 'There are no settings.'); });
+clientRpc.register('getPosition', () => [1, 2, 3]);
+browserRpc.register('showMenu', name => `showing ${name}`);
+await tick();
+
+const settle = promises => Promise.all(promises.map(promise => promise.then(value => value, err => err.code)));
+
+// calls made within batch() travel together, and every one of them settles on its own
+reset();
+const results = await settle(clientRpc.batch(() => [
+    clientRpc.callServer('getProfile'),
+    clientRpc.callServer('getInventory'),
+    clientRpc.callServer('getSettings'),
+    clientRpc.callServer('missing')
+]));
+assert.deepStrictEqual(results, ['profile', 'inventory', 'NO_SETTINGS', 'PROCEDURE_NOT_FOUND']);
+assert.deepStrictEqual(packets.toServer, [4]);
+
+// batch() returns whatever the function returns
+assert.strictEqual(clientRpc.batch(() => 'done'), 'done');
+
+// calls to different destinations are batched separately
+reset();
+const mixed = await settle(server.batch(() => [
+    server.callClient(client.player, 'getPosition'),
+    server.callBrowsers(client.player, 'showMenu', 'shop'),
+    server.callClient(client.player, 'getPosition')
+]));
+assert.deepStrictEqual(mixed, [[1, 2, 3], 'showing shop', [1, 2, 3]]);
+assert.deepStrictEqual(packets.toClient, [3]);
+assert.deepStrictEqual(packets.toBrowser, [1]);
+
+// calls from a browser stay batched on their way through the client, and so do the responses that are ready together
+reset();
+const relayed = await settle(browserRpc.batch(() => [
+    browserRpc.callServer('getProfile'),
+    browserRpc.callServer('getInventory'),
+    browserRpc.callServer('getProfile')
+]));
+assert.deepStrictEqual(relayed, ['profile', 'inventory', 'profile']);
+assert.deepStrictEqual(packets.fromBrowser, [3]);
+assert.deepStrictEqual(packets.toServer, [3]);
+assert.deepStrictEqual(packets.toClient, [3]);
+assert.deepStrictEqual(packets.toBrowser, [3]);
+
+// calls made after the function returned aren't batched
+reset();
+let later;
+const batched = clientRpc.batch(() => {
+    later = tick(0).then(() => clientRpc.callServer('getProfile'));
+    return clientRpc.callServer('getInventory');
+});
+assert.strictEqual(await batched, 'inventory');
+assert.strictEqual(await later, 'profile');
+assert.deepStrictEqual(packets.toServer, [1, 1]);
+
+// with the batching option, everything sent within the same task is batched
+const automatic = createRpc({ namespace: 'auto', transport: client.transport, batching: true, ...quiet });
+const autoServer = createRpc({ namespace: 'auto', transport: network.server, ...quiet });
+const autoPackets = [];
+network.server.onClient('__rpc:process::auto', (player, data) => autoPackets.push(size(data)));
+autoServer.register('echo', value => value);
+await tick();
+
+autoPackets.length = 0;
+assert.deepStrictEqual(await Promise.all([1, 2, 3].map(value => automatic.callServer('echo', value))), [1, 2, 3]);
+assert.deepStrictEqual(autoPackets, [3]);
+
+[server, clientRpc, browserRpc, automatic, autoServer].forEach(instance => instance.destroy());
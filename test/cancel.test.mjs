@@ -0,0 +1,81 @@
+// Cancels calls through their signal or a timeout, and lets the remote procedure know through its own signal.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+// keeps the signal of every run, and finishes only once it's aborted
+const runs = [];
+const search = (query, info) => new Promise(resolve => {
+    runs.push(info.signal);
+    info.signal.addEventListener('abort', () => resolve('too late'));
+});
+let finished = 0;
+server.register('search', search);
+server.register('finish', () => ++finished);
+clientRpc.register('search', search);
+browserRpc.register('search', search);
+await tick();
+
+// aborting the caller's signal rejects it, and aborts the procedure's
+const controller = new AbortController();
+const call = clientRpc.callServer('search', 'pistol', { signal: controller.signal });
+await tick();
+assert.strictEqual(runs.length, 1);
+assert.strictEqual(runs[0].aborted, false);
+
+controller.abort();
+await assert.rejects(call, err => err.code === 'ABORTED' && err.procedure === 'search');
+await tick();
+assert.strictEqual(runs[0].aborted, true);
+assert.strictEqual(runs[0].reason, 'ABORTED');
+
+// a timeout cancels the procedure the same way
+await assert.rejects(server.callClient(client.player, 'search', 'rifle', { timeout: 50 }), err => err.code === 'TIMEOUT');
+await tick();
+assert.strictEqual(runs[1].aborted, true);
+assert.strictEqual(runs[1].reason, 'TIMEOUT');
+
+// from the server to a browser, through its client
+const toBrowser = new AbortController();
+const browserCall = server.callBrowsers(client.player, 'search', 'knife', { signal: toBrowser.signal });
+await tick();
+toBrowser.abort();
+await assert.rejects(browserCall, err => err.code === 'ABORTED');
+await tick();
+assert.strictEqual(runs[2].aborted, true);
+
+// from a browser to the server, through its client
+const fromBrowser = new AbortController();
+const relayed = browserRpc.callServer('search', 'bat', { signal: fromBrowser.signal });
+await tick();
+fromBrowser.abort();
+await assert.rejects(relayed, err => err.code === 'ABORTED');
+await tick();
+assert.strictEqual(runs[3].aborted, true);
+
+// a signal that's already aborted doesn't send the call
+const aborted = new AbortController();
+aborted.abort();
+await assert.rejects(clientRpc.callServer('finish', undefined, { signal: aborted.signal }), err => err.code === 'ABORTED');
+await tick();
+assert.strictEqual(finished, 0);
+
+// aborting after the response has no effect
+const late = new AbortController();
+assert.strictEqual(await clientRpc.callServer('finish', undefined, { signal: late.signal }), 1);
+late.abort();
+await tick();
+assert.strictEqual(runs.length, 4);
+
+[server, clientRpc, browserRpc].forEach(instance => instance.destroy());
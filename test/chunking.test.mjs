@@ -0,0 +1,71 @@
+// Splits large events into parts and compresses them on every route, within the limits of the receiver.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+const resource = network.addResource('other');
+
+const packets = { network: 0, webView: 0 };
+network.server.onClient('__rpc:process::test', () => packets.network++);
+browser.transport.on('__rpc:process::test', () => packets.webView++);
+
+const limits = [];
+const chunkSize = { network: 100, webView: 50, resource: 20 };
+const server = createRpc({
+    namespace: 'test',
+    transport: network.server,
+    chunkSize,
+    compression: { threshold: 200 },
+    rateLimit: { maxPayloadSize: 3000, onLimit: (player, reason) => limits.push(reason) },
+    ...quiet
+});
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, chunkSize, compression: true, maxEventSize: 20000, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, chunkSize, ...quiet });
+const resourceRpc = createRpc({ namespace: 'test', transport: resource, chunkSize, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+const echo = value => value;
+server.register('echo', echo, { public: true });
+clientRpc.register('echo', echo);
+browserRpc.register('echo', echo);
+await tick();
+
+// random text hardly compresses, so it has to be split
+const text = length => Array.from({ length }, () => String.fromCharCode(33 + Math.floor(Math.random() * 90))).join('');
+const value = text(1000);
+
+let before = packets.network;
+assert.strictEqual(await clientRpc.callServer('echo', value), value);
+assert(packets.network - before >= 10);
+
+before = packets.webView;
+assert.strictEqual(await clientRpc.callBrowser(browser.webView, 'echo', value), value);
+assert(packets.webView - before >= 20);
+
+assert.strictEqual(await browserRpc.callServer('echo', value), value);
+assert.strictEqual(await server.callClient(client.player, 'echo', value), value);
+assert.strictEqual(await resourceRpc.callResource('main', 'echo', value), value);
+
+// repetitive arguments are compressed, and arrive the same
+const repetitive = 'abc'.repeat(500);
+before = packets.network;
+assert.strictEqual(await clientRpc.callServer('echo', repetitive), repetitive);
+assert(packets.network - before < 10);
+
+// events larger than the receiver takes are refused, however they're sent
+await assert.rejects(server.callClient(client.player, 'echo', 'a'.repeat(30000)), err => err.code === 'PAYLOAD_TOO_LARGE');
+
+// a small compressed payload can't grow past the payload limit of players once it's decompressed
+limits.length = 0;
+await assert.rejects(clientRpc.callServer('echo', 'a'.repeat(30000)), err => err.code === 'RATE_LIMITED' && err.details.reason === 'payload');
+assert.deepStrictEqual(limits, ['payload']);
+
+server.destroy();
+clientRpc.destroy();
+browserRpc.destroy();
+resourceRpc.destroy();
@@ -0,0 +1,62 @@
+// Settles the calls waiting on a player or a webview that goes away, and expires events that never arrive whole.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const leaving = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, partialTimeout: 50, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const leavingRpc = createRpc({ namespace: 'test', transport: leaving.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+const hold = () => new Promise(() => {});
+const saved = [];
+server.register('save', value => { saved.push(value); });
+clientRpc.register('hold', hold);
+leavingRpc.register('hold', hold);
+browserRpc.register('hold', hold);
+await tick();
+
+// a player that disconnects rejects what's waiting on them, and nothing else
+const toLeaving = server.callClient(leaving.player, 'hold');
+const toClient = server.callClient(client.player, 'hold');
+await tick();
+
+leaving.disconnect();
+await assert.rejects(toLeaving, err => err.code === 'PLAYER_DISCONNECTED' && err.procedure === 'hold');
+
+const stillWaiting = await Promise.race([toClient.then(() => 'settled', () => 'settled'), tick(50).then(() => 'waiting')]);
+assert.strictEqual(stillWaiting, 'waiting');
+
+// a removed webview rejects what's waiting on it, and its procedures are forgotten
+const toBrowser = clientRpc.callBrowsers('hold');
+const fromServer = server.callBrowsers(client.player, 'hold');
+await tick();
+
+clientRpc.removeWebView(browser.webView);
+await assert.rejects(toBrowser, err => err.code === 'WEBVIEW_REMOVED' && err.procedure === 'hold');
+await assert.rejects(fromServer, err => err.code === 'WEBVIEW_REMOVED');
+assert.strictEqual(await clientRpc.hasProcedure('hold', 'browsers'), false);
+
+// an event whose remaining parts arrive in time is processed
+const send = (id, part, total, args) => client.transport.emitServer('__rpc:process::test', { id, type: 0, name: 'save', env: 'client', part, total, args });
+send('whole', 1, 2, '"in ');
+send('whole', 2, 2, 'time"');
+await tick();
+assert.deepStrictEqual(saved, ['in time']);
+
+// one whose remaining parts come too late is forgotten, and the late parts alone are never processed
+send('late', 1, 2, '"too ');
+await tick(150);
+send('late', 2, 2, 'late"');
+await tick();
+assert.deepStrictEqual(saved, ['in time']);
+
+[server, clientRpc, leavingRpc, browserRpc].forEach(instance => instance.destroy());
@@ -0,0 +1,78 @@
+// Rejects failed calls with an RpcError that says what went wrong and where, however far the call travelled.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+const failures = {
+    buyItem: () => { throw new RpcError('INSUFFICIENT_FUNDS', 'You cannot afford this.', { details: { missing: 50 } }); },
+    crash: () => { throw new TypeError('items is not iterable'); },
+    reject: () => Promise.reject(new Error('the database is gone')),
+    throwCode: () => { throw 'OUT_OF_STOCK'; },
+    throwValue: () => { throw { reason: 'closed' }; },
+    hold: () => new Promise(() => {})
+};
+Object.keys(failures).forEach(name => {
+    server.register(name, failures[name]);
+    browserRpc.register(name, failures[name]);
+});
+await tick();
+
+const failsWith = (code, environment, procedure, check = () => {}) => err => {
+    assert(err instanceof RpcError);
+    assert.strictEqual(err.name, 'RpcError');
+    assert.strictEqual(err.code, code);
+    assert.strictEqual(err.environment, environment);
+    assert.strictEqual(err.procedure, procedure);
+    check(err);
+    return true;
+};
+
+// business errors arrive as they were thrown
+await assert.rejects(clientRpc.callServer('buyItem', { item: 'water' }), failsWith('INSUFFICIENT_FUNDS', 'server', 'buyItem', err => {
+    assert.strictEqual(err.message, 'You cannot afford this.');
+    assert.deepStrictEqual(err.details, { missing: 50 });
+}));
+
+// other errors keep their message and, in development builds, their stack
+await assert.rejects(clientRpc.callServer('crash'), failsWith('PROCEDURE_ERROR', 'server', 'crash', err => {
+    assert.strictEqual(err.message, 'items is not iterable');
+    assert(err.stack.includes('TypeError: items is not iterable'));
+}));
+await assert.rejects(clientRpc.callServer('reject'), failsWith('PROCEDURE_ERROR', 'server', 'reject', err => {
+    assert.strictEqual(err.message, 'the database is gone');
+}));
+
+// a thrown string is a code, and anything else ends up in the details
+await assert.rejects(clientRpc.callServer('throwCode'), failsWith('OUT_OF_STOCK', 'server', 'throwCode'));
+await assert.rejects(clientRpc.callServer('throwValue'), failsWith('PROCEDURE_ERROR', 'server', 'throwValue', err => {
+    assert.deepStrictEqual(err.details, { reason: 'closed' });
+}));
+
+// errors made by RPC itself say where the call failed
+await assert.rejects(clientRpc.callServer('missing'), failsWith('PROCEDURE_NOT_FOUND', 'server', 'missing', err => {
+    assert.strictEqual(err.message, 'Procedure "missing" is not registered.');
+}));
+await assert.rejects(clientRpc.callServer('hold', undefined, { timeout: 20 }), failsWith('TIMEOUT', 'client', 'hold'));
+
+// calls relayed through the client name the procedure that failed, not the relay
+await assert.rejects(browserRpc.callServer('buyItem'), failsWith('INSUFFICIENT_FUNDS', 'server', 'buyItem', err => {
+    assert.deepStrictEqual(err.details, { missing: 50 });
+}));
+await assert.rejects(browserRpc.callServer('missing'), failsWith('PROCEDURE_NOT_FOUND', 'server', 'missing'));
+await assert.rejects(server.callBrowsers(client.player, 'crash'), failsWith('PROCEDURE_ERROR', 'cef', 'crash', err => {
+    assert.strictEqual(err.message, 'items is not iterable');
+}));
+await assert.rejects(server.callBrowsers(client.player, 'missing'), failsWith('PROCEDURE_NOT_FOUND', 'client', 'missing'));
+
+[server, clientRpc, browserRpc].forEach(instance => instance.destroy());
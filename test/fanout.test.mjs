@@ -0,0 +1,83 @@
+// Calls the clients and browsers of many players at once, and reports how the call went for each of them.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+
+// every player answers differently: with their fps, an error, or not at all
+const players = ['fast', 'broken', 'silent'].map(kind => {
+    const client = network.addClient();
+    const browser = client.addWebView();
+    const rpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+    const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+    rpc.addWebView(browser.webView);
+
+    const answer = () => {
+        if (kind === 'broken') throw new RpcError('NO_FPS', 'Could not measure.');
+        if (kind === 'silent') return new Promise(() => {});
+        return 60;
+    };
+    rpc.register('getFps', answer);
+    browserRpc.register('getFps', answer);
+
+    const events = [];
+    rpc.on('announce', message => events.push(['client', message]));
+    browserRpc.on('announce', message => events.push(['cef', message]));
+
+    return { kind, client, rpc, browserRpc, events };
+});
+const [fast, broken, silent] = players;
+await tick();
+
+const describe = results => Array.from(results.entries()).map(([player, result]) => [
+    players.find(p => p.client.player === player).kind,
+    result.status,
+    result.status === 'success' ? result.value : result.error.code
+]);
+
+// every player gets a result of their own, and the call never rejects
+const results = await server.callClients('all', 'getFps', undefined, { timeout: 100 });
+assert(results instanceof Map);
+assert.deepStrictEqual(describe(results), [
+    ['fast', 'success', 60],
+    ['broken', 'error', 'NO_FPS'],
+    ['silent', 'timeout', 'TIMEOUT']
+]);
+assert(results.get(broken.client.player).error instanceof RpcError);
+
+// or only those given
+const some = await server.callClients([fast.client.player, broken.client.player], 'getFps');
+assert.deepStrictEqual(describe(some), [['fast', 'success', 60], ['broken', 'error', 'NO_FPS']]);
+assert.strictEqual((await server.callClients([], 'getFps')).size, 0);
+
+// the same for their browsers
+const browsers = await server.callBrowsersOf('all', 'getFps', undefined, { timeout: 100 });
+assert.deepStrictEqual(describe(browsers), [
+    ['fast', 'success', 60],
+    ['broken', 'error', 'NO_FPS'],
+    ['silent', 'timeout', 'TIMEOUT']
+]);
+
+// players that disconnect while they're called fail on their own
+const pending = server.callClients([fast.client.player, silent.client.player], 'getFps');
+await tick();
+silent.client.disconnect();
+assert.deepStrictEqual(describe(await pending), [['fast', 'success', 60], ['silent', 'error', 'PLAYER_DISCONNECTED']]);
+
+// 'all' only means the players that are still connected
+assert.deepStrictEqual(describe(await server.callClients('all', 'getFps')).map(([kind]) => kind), ['fast', 'broken']);
+
+// events reach the clients and browsers of every player given
+server.triggerClients('all', 'announce', 'restart');
+server.triggerBrowsersOf([broken.client.player], 'announce', 'maintenance');
+await tick();
+assert.deepStrictEqual(fast.events, [['client', 'restart']]);
+assert.deepStrictEqual(broken.events, [['client', 'restart'], ['cef', 'maintenance']]);
+assert.deepStrictEqual(silent.events, []);
+
+players.forEach(({ rpc, browserRpc }) => [rpc, browserRpc].forEach(instance => instance.destroy()));
+server.destroy();
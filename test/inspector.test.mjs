@@ -0,0 +1,107 @@
+// Records every event that is sent or received, and replays the requests of a recording against another network.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const streamed = [];
+const server = createRpc({
+    namespace: 'test',
+    transport: network.server,
+    inspector: { capacity: 20, args: true, onRecord: record => streamed.push(record) },
+    ...quiet
+});
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+
+const shopProcedures = rpc => {
+    const bought = [];
+    rpc.register('buyItem', ({ item }) => {
+        if (item === 'car') throw new RpcError('TOO_EXPENSIVE');
+        bought.push(item);
+        return item;
+    });
+    rpc.register('hang', () => new Promise(() => {}));
+    return bought;
+};
+shopProcedures(server);
+await tick();
+server.clearRecords();
+streamed.length = 0;
+
+// requests and their responses share an ID, and the record that finishes a call says how it went
+const start = Date.now();
+await clientRpc.callServer('buyItem', { item: 'water' });
+await assert.rejects(clientRpc.callServer('buyItem', { item: 'car' }));
+
+const records = server.getRecords({ name: 'buyItem' });
+assert.deepStrictEqual(records.map(record => [record.direction, record.kind]), [['in', 'request'], ['out', 'response'], ['in', 'request'], ['out', 'error']]);
+assert.strictEqual(records[0].id, records[1].id);
+assert.notStrictEqual(records[0].id, records[2].id);
+
+const [request, response, , error] = records;
+assert.strictEqual(request.route, 'network');
+assert.strictEqual(request.peer, client.player.id);
+assert.strictEqual(request.env, 'client');
+assert.strictEqual(request.args, JSON.stringify({ item: 'water' }));
+assert.strictEqual(request.size, request.args.length);
+assert.strictEqual(request.parts, 1);
+assert.strictEqual(request.packet.name, 'buyItem');
+assert.strictEqual(request.packet.args, undefined);
+assert(request.time >= start);
+assert.strictEqual(response.name, 'buyItem');
+assert.strictEqual(response.env, 'server');
+assert.strictEqual(response.outcome, 'success');
+assert(response.duration >= 0);
+assert.strictEqual(error.outcome, 'error');
+
+// cancellations are recorded too
+const controller = new AbortController();
+const hanging = clientRpc.callServer('hang', undefined, { signal: controller.signal }).catch(err => err.code);
+await tick();
+controller.abort();
+assert.strictEqual(await hanging, 'ABORTED');
+await tick();
+assert.deepStrictEqual(server.getRecords({ name: 'hang' }).map(record => [record.kind, record.outcome]), [['request', undefined], ['cancel', 'cancelled']]);
+
+// the records can be filtered
+assert.strictEqual(server.getRecords({ kind: 'error' }).length, 1);
+assert.strictEqual(server.getRecords({ direction: 'out' }).length, 2);
+assert.deepStrictEqual(server.getRecords({ id: request.id }), [request, response]);
+assert.deepStrictEqual(server.getRecords({ peer: client.player.id, limit: 1 }), [server.getRecords().pop()]);
+assert.deepStrictEqual(server.getRecords({ since: Date.now() + 1000 }), []);
+
+// every record was handed to onRecord as it was made, and they can all be exported as JSON lines
+assert.deepStrictEqual(streamed, server.getRecords());
+const exported = server.exportRecords({ name: 'buyItem' });
+assert.deepStrictEqual(exported.trim().split('\n').map(line => JSON.parse(line)), JSON.parse(JSON.stringify(records)));
+
+// only the most recent records are kept
+for (let i = 0; i < 20; i++) await clientRpc.callServer('buyItem', { item: `item${i}` });
+const kept = server.getRecords();
+assert.strictEqual(kept.length, 20);
+assert.strictEqual(kept[kept.length - 1].kind, 'response');
+assert(!kept.some(record => record.id === request.id));
+
+// a recording can be replayed somewhere else, with the same arguments
+const recording = server.exportRecords();
+server.clearRecords();
+assert.deepStrictEqual(server.getRecords(), []);
+
+const testNetwork = createMemoryNetwork();
+const testServer = createRpc({ namespace: 'test', transport: testNetwork.server, ...quiet });
+const replayed = shopProcedures(testServer);
+const testClient = testNetwork.addClient();
+
+const sent = await testServer.replay(recording, testClient.transport, { speed: 0 });
+assert.strictEqual(sent, 10);
+await tick();
+assert.deepStrictEqual(replayed, Array.from({ length: 10 }, (_, i) => `item${i + 10}`));
+
+// replaying a client's recording through the server needs a player to send to
+await assert.rejects(testServer.replay(recording, testNetwork.server), /expects a player/);
+
+[server, clientRpc, testServer].forEach(instance => instance.destroy());
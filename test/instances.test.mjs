@@ -0,0 +1,53 @@
+// Keeps instances with different namespaces apart, and lets a destroyed instance's namespace be claimed again.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const inventory = createRpc({ namespace: 'inventory', transport: network.server, ...quiet });
+const banking = createRpc({ namespace: 'banking', transport: network.server, ...quiet });
+const clientInventory = createRpc({ namespace: 'inventory', transport: client.transport, ...quiet });
+const clientBanking = createRpc({ namespace: 'banking', transport: client.transport, ...quiet });
+
+inventory.register('get', () => 'inventory');
+banking.register('get', () => 'banking');
+await tick();
+
+assert.strictEqual(await clientInventory.callServer('get'), 'inventory');
+assert.strictEqual(await clientBanking.callServer('get'), 'banking');
+assert.throws(() => createRpc({ namespace: 'banking', transport: network.server, ...quiet }), /already in use/);
+
+// destroying an instance rejects what it waits for, and leaves the others alone
+banking.register('never', () => new Promise(() => {}));
+const pending = clientBanking.callServer('never');
+await tick();
+clientBanking.destroy();
+await assert.rejects(pending, err => err.code === 'DESTROYED');
+assert.strictEqual(await clientInventory.callServer('get'), 'inventory');
+
+// nothing can be added to it anymore
+assert.throws(() => clientBanking.register('get', () => 'late'), /destroyed/);
+assert.throws(() => clientBanking.unregister('get'), /destroyed/);
+assert.throws(() => clientBanking.on('event', () => {}), /destroyed/);
+assert.throws(() => clientBanking.use(() => {}), /destroyed/);
+assert.throws(() => clientBanking.callServer('get'), /destroyed/);
+assert.throws(() => clientBanking.init('banking', { transport: client.transport }), /destroyed/);
+
+// its namespace is free again
+const reloaded = createRpc({ namespace: 'banking', transport: client.transport, ...quiet });
+assert.strictEqual(await reloaded.callServer('get'), 'banking');
+
+// an instance without a namespace can be set up before it's initialized
+const later = createRpc({ transport: network.server });
+later.setLogLevel('silent');
+later.register('get', () => 'later');
+later.init('later', { transport: network.server, ...quiet });
+const clientLater = createRpc({ namespace: 'later', transport: client.transport, ...quiet });
+await tick();
+assert.strictEqual(await clientLater.callServer('get'), 'later');
+
+[inventory, banking, clientInventory, reloaded, later, clientLater].forEach(instance => instance.destroy());
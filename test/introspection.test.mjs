@@ -0,0 +1,45 @@
+// Lists the procedures of each environment, leaving RPC's internal ones out.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+server.register('getUser', id => ({ id }), { description: 'Looks up a user by their ID.', validate: 'number' });
+clientRpc.register('getPosition', () => [0, 0, 0]);
+browserRpc.register('showMenu', () => {});
+await tick();
+
+assert.deepStrictEqual(server.listProcedures(), [{ name: 'getUser', description: 'Looks up a user by their ID.', validate: 'number' }]);
+assert.deepStrictEqual(clientRpc.listProcedures(), [{ name: 'getPosition' }]);
+
+assert.deepStrictEqual(await clientRpc.queryProcedures('server'), server.listProcedures());
+assert.deepStrictEqual(await browserRpc.queryProcedures('client'), [{ name: 'getPosition' }]);
+assert.deepStrictEqual(await server.queryProcedures('client', { player: client.player }), [{ name: 'getPosition' }]);
+assert.deepStrictEqual(await server.queryProcedures('browsers', { player: client.player }), [{ name: 'showMenu' }]);
+await assert.rejects(server.queryProcedures('client'), /expects a player/);
+
+// internal procedures exist, but aren't part of what an instance offers
+assert.strictEqual(await server.hasProcedure('getUser'), true);
+assert.strictEqual(await server.hasProcedure('missing'), false);
+assert.strictEqual(await server.hasProcedure('__rpc:hello'), false);
+assert.strictEqual(await clientRpc.hasProcedure('__rpc:listProcedures'), false);
+assert.strictEqual(await clientRpc.hasProcedure('getUser', 'server'), true);
+assert.strictEqual(await clientRpc.hasProcedure('__rpc:hello', 'server'), false);
+assert.strictEqual(await server.hasProcedure('showMenu', 'browsers', { player: client.player }), true);
+
+// unregistered procedures are gone from the listings
+server.unregister('getUser');
+assert.deepStrictEqual(server.listProcedures(), []);
+assert.strictEqual(await clientRpc.hasProcedure('getUser', 'server'), false);
+
+[server, clientRpc, browserRpc].forEach(instance => instance.destroy());
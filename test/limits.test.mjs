@@ -0,0 +1,102 @@
+// Enforces the server's rate limits on players, including events that are sent in parts and never finished.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+// the limits count per second of Date.now(), which is moved by hand so that a slow machine can't cross a window by accident
+let now = Date.now();
+Date.now = () => now;
+const nextWindow = () => now += 1000;
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const limits = [];
+const server = createRpc({
+    namespace: 'test',
+    transport: network.server,
+    rateLimit: {
+        requestsPerSecond: 5,
+        procedures: { buy: 1 },
+        maxConcurrent: 2,
+        maxParts: 4,
+        maxPartials: 3,
+        maxPayloadSize: 1000,
+        onLimit: (player, reason, procedure) => procedure !== '__rpc:hello' && limits.push(reason)
+    },
+    ...quiet
+});
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, chunkSize: { network: 10 }, ...quiet });
+
+const release = [];
+server.register('echo', value => value);
+server.register('buy', () => 'bought');
+server.register('hold', () => new Promise(resolve => release.push(resolve)));
+await tick();
+
+const send = (id, part, total, args) => client.transport.emitServer('__rpc:process::test', { id, type: 0, name: 'echo', env: 'client', part, total, args });
+const limited = reason => err => err.code === 'RATE_LIMITED' && err.details.reason === reason;
+
+// unfinished events count as requests as soon as their first part arrives
+nextWindow();
+for (let i = 0; i < 1000; i++) send(`flood${i}`, 1, 2, '"aaaa');
+await tick();
+assert.strictEqual(limits.length, 997);
+assert(limits.every(reason => reason === 'partials' || reason === 'requests'));
+
+// the rest of a refused event is dropped without a word
+limits.length = 0;
+send('flood999', 2, 2, 'a"');
+await tick();
+assert.deepStrictEqual(limits, []);
+
+// finishing an event makes room for another one
+nextWindow();
+send('flood0', 2, 2, 'a"');
+send('another', 1, 2, '"aaaa');
+send('more', 1, 2, '"aaaa');
+await tick();
+assert.deepStrictEqual(limits, ['partials']);
+
+// and the rest is finished for the checks below
+nextWindow();
+['flood1', 'flood2', 'another'].forEach(id => send(id, 2, 2, 'a"'));
+await tick();
+
+// a request in parts only counts once
+nextWindow();
+limits.length = 0;
+assert.strictEqual(await clientRpc.callServer('echo', 'a long enough value'), 'a long enough value');
+for (let i = 0; i < 4; i++) await clientRpc.callServer('echo', 'short');
+await assert.rejects(clientRpc.callServer('echo', 'short'), limited('requests'));
+assert.deepStrictEqual(limits, ['requests']);
+
+// per procedure
+nextWindow();
+assert.strictEqual(await clientRpc.callServer('buy'), 'bought');
+await assert.rejects(clientRpc.callServer('buy'), limited('procedure'));
+
+// requests running at the same time
+nextWindow();
+const held = [clientRpc.callServer('hold'), clientRpc.callServer('hold')];
+await tick();
+await assert.rejects(clientRpc.callServer('hold'), limited('concurrency'));
+release.forEach(resolve => resolve('released'));
+assert.deepStrictEqual(await Promise.all(held), ['released', 'released']);
+
+// too many parts, or too large
+nextWindow();
+await assert.rejects(clientRpc.callServer('echo', 'a'.repeat(50)), limited('parts'));
+nextWindow();
+const large = createRpc({ namespace: 'large', transport: client.transport, ...quiet });
+const largeServer = createRpc({ namespace: 'large', transport: network.server, rateLimit: { maxPayloadSize: 100 }, ...quiet });
+largeServer.register('echo', value => value);
+await tick();
+await assert.rejects(large.callServer('echo', 'a'.repeat(200)), limited('payload'));
+
+server.destroy();
+clientRpc.destroy();
+large.destroy();
+largeServer.destroy();
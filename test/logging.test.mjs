@@ -0,0 +1,34 @@
+// Keeps the log levels of each instance to itself.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const messages = [];
+const logger = name => ({
+    debug: message => messages.push(`${name} debug ${message}`),
+    info: message => messages.push(`${name} info ${message}`),
+    warn: message => messages.push(`${name} warn ${message}`),
+    error: message => messages.push(`${name} error ${message}`)
+});
+
+const server = createRpc({ namespace: 'test', transport: network.server, logger: logger('server'), logLevel: 'silent' });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, logger: logger('client'), logLevel: 'silent' });
+
+server.setLogLevel('debug', 'test');
+server.setLogLevel('debug');
+server.register('ping', () => 'pong');
+clientRpc.register('ping', () => 'pong');
+assert(messages.some(message => message.startsWith('server debug')));
+assert(!messages.some(message => message.startsWith('client')));
+
+// a level that was set for a namespace goes away with its instance
+clientRpc.destroy();
+messages.length = 0;
+const next = createRpc({ namespace: 'test', transport: client.transport, logger: logger('next') });
+next.register('ping', () => 'pong');
+assert(messages.some(message => message.startsWith('next debug')));
+
+server.destroy();
+next.destroy();
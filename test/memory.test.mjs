@@ -0,0 +1,39 @@
+// Runs calls between a server, a client and a browser on the memory network, using the build that works without alt:V.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+server.register('add', ([a, b]) => a + b);
+clientRpc.register('name', () => 'client');
+browserRpc.register('echo', value => value);
+server.register('fail', () => { throw new Error('nope'); });
+await tick();
+
+assert.strictEqual(await clientRpc.callServer('add', [1, 2]), 3);
+assert.strictEqual(await server.callClient(client.player, 'name'), 'client');
+assert.strictEqual(await clientRpc.callBrowser(browser.webView, 'echo', 'hi'), 'hi');
+assert.strictEqual(await browserRpc.callServer('add', [2, 3]), 5);
+await assert.rejects(clientRpc.callServer('missing'), err => err.code === 'PROCEDURE_NOT_FOUND');
+await assert.rejects(clientRpc.callServer('fail'));
+
+// a destroyed instance rejects what it was waiting for and frees its namespace
+server.register('never', () => new Promise(() => {}));
+const pending = clientRpc.callServer('never');
+await tick();
+clientRpc.destroy();
+await assert.rejects(pending, err => err.code === 'DESTROYED');
+createRpc({ namespace: 'test', transport: client.transport, ...quiet }).destroy();
+
+server.destroy();
+browserRpc.destroy();
@@ -0,0 +1,117 @@
+// Measures the calls each environment makes and handles, and exports them in the Prometheus text format.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const exports = [];
+const server = createRpc({
+    namespace: 'test',
+    transport: network.server,
+    metrics: { interval: 50, onExport: (snapshot, metrics) => exports.push({ snapshot, metrics }) },
+    ...quiet
+});
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+let release;
+server.register('buyItem', item => {
+    if (item === 'car') throw new RpcError('TOO_EXPENSIVE');
+    return item;
+});
+server.register('loadCharacter', () => tick(30).then(() => 'loaded'));
+server.register('hang', () => new Promise(resolve => release = resolve));
+server.on('announce', () => {});
+await tick();
+
+const find = (rpc, name, direction, route = 'network') => rpc.getMetrics().procedures.find(procedure => (
+    procedure.name === name && procedure.direction === direction && procedure.route === route
+));
+
+await clientRpc.callServer('buyItem', 'water');
+await clientRpc.callServer('buyItem', 'bread');
+await assert.rejects(clientRpc.callServer('buyItem', 'car'));
+await clientRpc.callServer('loadCharacter');
+
+// every call is counted on both sides
+const metrics = server.getMetrics();
+assert.strictEqual(metrics.environment, 'server');
+assert.strictEqual(metrics.namespace, 'test');
+
+const incoming = find(server, 'buyItem', 'incoming');
+assert.strictEqual(incoming.calls, 3);
+assert.deepStrictEqual(incoming.errors, { TOO_EXPENSIVE: 1 });
+assert.strictEqual(incoming.inFlight, 0);
+assert.strictEqual(incoming.bytesReceived, '"water""bread""car"'.length);
+assert(incoming.bytesSent >= '"water""bread"'.length);
+assert.strictEqual(incoming.latency.count, 3);
+
+const outgoing = find(clientRpc, 'buyItem', 'outgoing');
+assert.strictEqual(outgoing.calls, 3);
+assert.deepStrictEqual(outgoing.errors, { TOO_EXPENSIVE: 1 });
+assert.strictEqual(outgoing.bytesSent, incoming.bytesReceived);
+
+// latencies are kept in a histogram
+const { latency } = find(server, 'loadCharacter', 'incoming');
+assert(latency.max >= 25 && latency.sum >= 25);
+assert(latency.p50 > 0 && latency.p50 <= latency.p95 && latency.p95 <= latency.p99);
+assert.strictEqual(latency.buckets.find(bucket => bucket.le === 10).count, 0);
+assert.strictEqual(latency.buckets.find(bucket => bucket.le === Infinity).count, 1);
+
+// calls that haven't finished are in flight, and timeouts are counted separately
+const hanging = clientRpc.callServer('hang', undefined, { timeout: 50 }).catch(err => err.code);
+await tick();
+assert.strictEqual(find(server, 'hang', 'incoming').inFlight, 1);
+assert.strictEqual(find(clientRpc, 'hang', 'outgoing').inFlight, 1);
+assert.strictEqual(await hanging, 'TIMEOUT');
+release();
+await tick();
+assert.strictEqual(find(clientRpc, 'hang', 'outgoing').timeouts, 1);
+assert.deepStrictEqual(find(clientRpc, 'hang', 'outgoing').errors, { TIMEOUT: 1 });
+assert.strictEqual(find(server, 'hang', 'incoming').inFlight, 0);
+
+// calls relayed through the client are counted under the procedure that was called
+await browserRpc.callServer('buyItem', 'milk');
+assert.strictEqual(find(browserRpc, 'buyItem', 'outgoing', 'webView').calls, 1);
+assert.strictEqual(find(clientRpc, 'buyItem', 'outgoing').calls, 4);
+assert.strictEqual(find(server, 'buyItem', 'incoming').calls, 4);
+
+// events, internal traffic and procedures that don't exist aren't counted
+clientRpc.triggerServer('announce');
+await clientRpc.ping();
+await assert.rejects(clientRpc.callServer('missing'));
+await tick();
+assert.deepStrictEqual(server.getMetrics().procedures.map(procedure => procedure.name).sort(), ['buyItem', 'hang', 'loadCharacter']);
+assert(find(clientRpc, 'missing', 'outgoing'));
+
+// the Prometheus export has the same numbers, labelled, with latencies in seconds
+const text = server.exportMetrics();
+const labels = 'namespace="test",environment="server",procedure="buyItem",route="network",direction="incoming"';
+assert(text.includes('# TYPE rpc_calls_total counter'));
+assert(text.includes(`rpc_calls_total{${labels}} 4\n`));
+assert(text.includes(`rpc_errors_total{${labels},code="TOO_EXPENSIVE"} 1\n`));
+assert(text.includes('# TYPE rpc_in_flight gauge'));
+assert(text.includes('# TYPE rpc_call_duration_seconds histogram'));
+assert(text.includes(`rpc_call_duration_seconds_bucket{${labels},le="0.001"}`));
+assert(text.includes(`rpc_call_duration_seconds_bucket{${labels},le="+Inf"} 4\n`));
+assert(text.includes(`rpc_call_duration_seconds_count{${labels}} 4\n`));
+
+// and is handed to the exporter periodically
+await tick(60);
+assert(exports.length >= 1);
+const last = exports[exports.length - 1];
+assert.strictEqual(last.snapshot, server.exportMetrics());
+assert.deepStrictEqual(last.metrics, server.getMetrics());
+
+[server, clientRpc, browserRpc].forEach(instance => instance.destroy());
+
+// a destroyed instance stops exporting
+const count = exports.length;
+await tick(120);
+assert.strictEqual(exports.length, count);
@@ -0,0 +1,107 @@
+// Passes incoming and outgoing calls through middleware, in the order it was added.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+
+const order = [];
+const seen = [];
+let kicked = 0;
+
+server.register('double', value => value * 2);
+server.register('admin:kick', () => ++kicked);
+server.register('fail', () => { throw new RpcError('BROKEN', 'It broke.'); });
+await tick();
+
+// runs around the call, in the order it was added
+server.use(async (ctx, next) => {
+    order.push('outer before');
+    seen.push({ name: ctx.name, direction: ctx.direction, environment: ctx.info.environment, player: ctx.info.player });
+    await next();
+    order.push('outer after');
+});
+const removeInner = server.use(async (ctx, next) => {
+    order.push('inner before');
+    await next();
+    order.push(`inner after ${ctx.result}`);
+});
+
+assert.strictEqual(await clientRpc.callServer('double', 2), 4);
+assert.deepStrictEqual(order, ['outer before', 'inner before', 'inner after 4', 'outer after']);
+assert.deepStrictEqual(seen, [{ name: 'double', direction: 'incoming', environment: 'client', player: client.player }]);
+
+// removed middleware doesn't run anymore
+removeInner();
+order.length = 0;
+await clientRpc.callServer('double', 2);
+assert.deepStrictEqual(order, ['outer before', 'outer after']);
+
+// can change the arguments and the result
+const removeChange = server.use('double', async (ctx, next) => {
+    ctx.args += 1;
+    await next();
+    ctx.result = `${ctx.result}!`;
+});
+assert.strictEqual(await clientRpc.callServer('double', 2), '6!');
+removeChange();
+
+// can short-circuit the call, or refuse it, for the procedures with a prefix
+server.use('admin:', async (ctx, next) => {
+    if (ctx.args !== 'secret') throw new RpcError('FORBIDDEN', 'You are not an admin.');
+    await next();
+});
+server.use('double', async ctx => { ctx.result = 'cached'; });
+
+await assert.rejects(clientRpc.callServer('admin:kick'), err => err.code === 'FORBIDDEN' && err.message === 'You are not an admin.');
+assert.strictEqual(kicked, 0);
+assert.strictEqual(await clientRpc.callServer('admin:kick', 'secret'), 1);
+assert.strictEqual(await clientRpc.callServer('double', 2), 'cached');
+
+// sees errors, and can turn them into results
+server.use('fail', async (ctx, next) => {
+    try {
+        await next();
+    } catch (err) {
+        assert.strictEqual(ctx.error, err);
+        ctx.result = `recovered from ${err.code}`;
+    }
+});
+assert.strictEqual(await clientRpc.callServer('fail'), 'recovered from BROKEN');
+
+// outgoing calls pass through the caller's middleware, with the target in the info
+const outgoing = [];
+clientRpc.register('whoami', () => 'client');
+await tick();
+server.use('whoami', async (ctx, next) => {
+    outgoing.push({ direction: ctx.direction, environment: ctx.info.environment, player: ctx.info.player, args: ctx.args });
+    await next();
+    ctx.result = ctx.result.toUpperCase();
+});
+clientRpc.use(async (ctx, next) => {
+    if (ctx.direction === 'outgoing') outgoing.push({ direction: ctx.direction, name: ctx.name });
+    await next();
+});
+
+assert.strictEqual(await server.callClient(client.player, 'whoami', 'hi'), 'CLIENT');
+assert.strictEqual(await clientRpc.callServer('double', 1), 'cached');
+assert.deepStrictEqual(outgoing, [
+    { direction: 'outgoing', environment: 'server', player: client.player, args: 'hi' },
+    { direction: 'outgoing', name: 'double' }
+]);
+
+// local calls and events don't pass through middleware
+seen.length = 0;
+assert.strictEqual(await server.call('double', 2), 4);
+server.on('ping', () => {});
+clientRpc.triggerServer('ping');
+await tick();
+assert.deepStrictEqual(seen, []);
+
+[server, clientRpc].forEach(instance => instance.destroy());
@@ -0,0 +1,89 @@
+// Lets environments wait for each other to initialize, queues calls until they have, and measures their latency.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const server = createRpc({ namespace: 'test', transport: network.server, waitForReady: true, ...quiet });
+server.register('whoami', (_, info) => info.player.id);
+
+// calls to a client that hasn't initialized yet wait for it
+const client = network.addClient();
+const clientReady = server.ready(client.player);
+const queued = server.callClient(client.player, 'getName');
+server.triggerClient(client.player, 'welcome', 'hi');
+const welcomed = [];
+await tick();
+
+const clientRpc = createRpc({ transport: client.transport });
+clientRpc.setLogLevel('silent');
+clientRpc.register('getName', () => 'Bob');
+clientRpc.on('welcome', message => welcomed.push(message));
+clientRpc.init('test', { waitForReady: true, ...quiet });
+
+const announced = await clientReady;
+assert.strictEqual(announced.environment, 'client');
+assert.strictEqual(announced.namespace, 'test');
+assert.strictEqual(typeof announced.version, 'string');
+assert.strictEqual(await queued, 'Bob');
+assert.deepStrictEqual(welcomed, ['hi']);
+
+// the client knows the server is ready, and doesn't wait for it again
+assert.strictEqual((await clientRpc.ready()).environment, 'server');
+assert.strictEqual((await clientRpc.ready('server')).namespace, 'test');
+assert.strictEqual(await clientRpc.callServer('whoami'), client.player.id);
+
+// the time spent waiting counts towards the timeout
+const late = network.addClient();
+await assert.rejects(server.callClient(late.player, 'getName', undefined, { timeout: 50 }), err => err.code === 'TIMEOUT');
+await assert.rejects(server.ready(late.player, { timeout: 50 }), err => err.code === 'TIMEOUT');
+
+// a client that leaves before it's ready settles what waits on it
+const waiting = server.ready(late.player);
+const waitingCall = server.callClient(late.player, 'getName');
+late.disconnect();
+await assert.rejects(waiting, err => err.code === 'PLAYER_DISCONNECTED');
+await assert.rejects(waitingCall, err => err.code === 'PLAYER_DISCONNECTED');
+
+// calls to browsers that are still loading wait for them
+const hud = client.addWebView();
+clientRpc.addWebView(hud.webView, { id: 'hud' });
+const hudReady = clientRpc.ready('hud');
+const shown = clientRpc.callBrowsers('showMoney', 500);
+await tick();
+
+const hudRpc = createRpc({ transport: hud.transport });
+hudRpc.setLogLevel('silent');
+hudRpc.register('showMoney', amount => `$${amount}`);
+hudRpc.init('test', { ...quiet });
+
+assert.strictEqual((await hudReady).environment, 'cef');
+assert.strictEqual(await shown, '$500');
+assert.strictEqual((await hudRpc.ready()).environment, 'client');
+assert.strictEqual((await clientRpc.ready(hud.webView)).environment, 'cef');
+
+// a removed browser settles what waits on it
+const phone = client.addWebView();
+clientRpc.addWebView(phone.webView, { id: 'phone' });
+const phoneReady = clientRpc.ready('phone');
+clientRpc.removeWebView(phone.webView);
+await assert.rejects(phoneReady, err => err.code === 'WEBVIEW_REMOVED');
+
+// without waitForReady, calls to a browser that hasn't registered anything fail right away
+const impatient = createRpc({ namespace: 'impatient', transport: client.transport, ...quiet });
+impatient.addWebView(client.addWebView().webView);
+await assert.rejects(impatient.callBrowsers('showMoney', 5), err => err.code === 'PROCEDURE_NOT_FOUND');
+
+// ping measures the round trip
+const latencies = await Promise.all([server.ping(client.player), clientRpc.ping(), clientRpc.ping('hud'), hudRpc.ping()]);
+latencies.forEach(latency => assert(typeof latency === 'number' && latency >= 0));
+
+// and fails like a call when there's nobody to answer
+const mute = network.addClient();
+await assert.rejects(server.ping(mute.player, { timeout: 50 }), err => err.code === 'TIMEOUT');
+hud.destroy();
+await assert.rejects(clientRpc.ping(hud.webView), err => err.code === 'INVALID_BROWSER');
+
+[server, clientRpc, hudRpc, impatient].forEach(instance => instance.destroy());
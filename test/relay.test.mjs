@@ -0,0 +1,106 @@
+// Relays calls between players through the server, for the procedures it allows.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const authorized = [];
+
+const server = createRpc({
+    namespace: 'test',
+    transport: network.server,
+    relay: {
+        procedures: ['tradeRequest', 'ring', 'wave', 'showOffer', '__rpc:hello'],
+        authorize: (from, to, name, target) => {
+            authorized.push([from.id, to.id, name, target]);
+            if (name === 'ring') return Promise.resolve(!to.busy);
+            return !to.blocked;
+        }
+    },
+    ...quiet
+});
+const open = createRpc({ namespace: 'open', transport: network.server, relay: { authorize: () => true }, ...quiet });
+const closed = createRpc({ namespace: 'closed', transport: network.server, ...quiet });
+
+const join = () => {
+    const client = network.addClient();
+    const browser = client.addWebView();
+    const rpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+    const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+    rpc.addWebView(browser.webView);
+
+    return { client, player: client.player, id: client.player.id, rpc, browserRpc };
+};
+const alice = join();
+const bob = join();
+
+const seen = [];
+bob.rpc.register('tradeRequest', (items, info) => {
+    seen.push({ items, origin: info.origin, originId: info.originId, environment: info.environment });
+    if (items.includes('car')) throw new RpcError('TOO_EXPENSIVE', 'Not for a car.');
+    return true;
+});
+bob.rpc.register('ring', () => 'ringing');
+bob.rpc.register('secret', () => 'secret');
+bob.browserRpc.register('showOffer', (offer, info) => `${info.originId} offers ${offer}`);
+bob.rpc.on('wave', (_, info) => seen.push({ wave: info.originId }));
+await tick();
+
+const forbidden = err => err.code === 'FORBIDDEN';
+
+// the callee knows who called and from where, however the caller named them
+assert.strictEqual(await alice.rpc.callPlayer(bob.player, 'tradeRequest', ['apple']), true);
+assert.strictEqual(await alice.browserRpc.callPlayer(bob.id, 'tradeRequest', ['pear']), true);
+assert.deepStrictEqual(seen, [
+    { items: ['apple'], origin: alice.player, originId: alice.id, environment: 'client' },
+    { items: ['pear'], origin: alice.player, originId: alice.id, environment: 'cef' }
+]);
+assert.deepStrictEqual(authorized, [[alice.id, bob.id, 'tradeRequest', 'client'], [alice.id, bob.id, 'tradeRequest', 'client']]);
+
+// errors come back to the caller
+await assert.rejects(alice.rpc.callPlayer(bob.id, 'tradeRequest', ['car']), err => err.code === 'TOO_EXPENSIVE' && err.procedure === 'tradeRequest');
+
+// browsers of the other player can be called too
+authorized.length = 0;
+assert.strictEqual(await alice.browserRpc.callPlayerBrowsers(bob.id, 'showOffer', 'apple'), `${alice.id} offers apple`);
+assert.deepStrictEqual(authorized, [[alice.id, bob.id, 'showOffer', 'browser']]);
+
+// and events sent
+seen.length = 0;
+alice.rpc.triggerPlayer(bob.id, 'wave');
+await tick();
+assert.deepStrictEqual(seen, [{ wave: alice.id }]);
+
+// only the procedures the server allows, and only when it authorizes the call
+await assert.rejects(alice.rpc.callPlayer(bob.id, 'secret'), forbidden);
+assert.strictEqual(await alice.rpc.callPlayer(bob.id, 'ring'), 'ringing');
+bob.player.busy = true;
+await assert.rejects(alice.rpc.callPlayer(bob.id, 'ring'), forbidden);
+bob.player.blocked = true;
+await assert.rejects(alice.rpc.callPlayer(bob.id, 'tradeRequest', ['apple']), forbidden);
+bob.player.busy = bob.player.blocked = false;
+
+// internal procedures are never relayed, even if they're allowed
+await assert.rejects(alice.rpc.callPlayer(bob.id, '__rpc:hello'), forbidden);
+
+// players that aren't connected can't be called
+await assert.rejects(alice.rpc.callPlayer(12345, 'tradeRequest', ['apple']), err => err.code === 'PLAYER_NOT_FOUND');
+
+// without a list of procedures, everything is up to authorize
+const aliceOpen = createRpc({ namespace: 'open', transport: alice.client.transport, ...quiet });
+const bobOpen = createRpc({ namespace: 'open', transport: bob.client.transport, ...quiet });
+bobOpen.register('anything', () => 'relayed');
+await tick();
+assert.strictEqual(await aliceOpen.callPlayer(bob.id, 'anything'), 'relayed');
+
+// and without the relay option, nothing is relayed
+const aliceClosed = createRpc({ namespace: 'closed', transport: alice.client.transport, ...quiet });
+const bobClosed = createRpc({ namespace: 'closed', transport: bob.client.transport, ...quiet });
+bobClosed.register('anything', () => 'relayed');
+await tick();
+await assert.rejects(aliceClosed.callPlayer(bob.id, 'anything'), forbidden);
+
+[server, open, closed, aliceOpen, bobOpen, aliceClosed, bobClosed].forEach(instance => instance.destroy());
+[alice, bob].forEach(({ rpc, browserRpc }) => [rpc, browserRpc].forEach(instance => instance.destroy()));
@@ -0,0 +1,65 @@
+// Calls the public procedures of other resources on the same side, whatever their namespace.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const inventory = createRpc({ namespace: 'inventory', transport: network.server, ...quiet });
+const banking = createRpc({ namespace: 'banking', transport: network.addResource('banking'), ...quiet });
+const bankingAdmin = createRpc({ namespace: 'banking-admin', transport: network.addResource('banking'), ...quiet });
+network.addResource('weather'); // running, but without RPC
+
+const asked = [];
+let signal;
+banking.register('getBalance', ({ id }, info) => {
+    asked.push([info.resource, info.environment]);
+    if (id < 0) throw new RpcError('NO_ACCOUNT', 'There is no such account.', { details: { id } });
+    return 100 * id;
+}, { public: true });
+banking.register('setBalance', () => true);
+banking.register('audit', (_, info) => new Promise(() => signal = info.signal), { public: true });
+bankingAdmin.register('getBalance', () => 'admin', { public: true });
+await tick();
+
+// public procedures can be called by name, and know which resource called them
+assert.strictEqual(await inventory.callResource('banking', 'getBalance', { id: 2 }), 200);
+assert.deepStrictEqual(asked, [['main', 'server']]);
+
+// errors come back as they were thrown
+await assert.rejects(inventory.callResource('banking', 'getBalance', { id: -1 }), err => (
+    err instanceof RpcError && err.code === 'NO_ACCOUNT' && err.procedure === 'getBalance' && err.details.id === -1
+));
+
+// procedures that aren't public look like they don't exist, and so do resources that aren't running
+await assert.rejects(inventory.callResource('banking', 'setBalance', 5), err => err.code === 'PROCEDURE_NOT_FOUND');
+await assert.rejects(inventory.callResource('banking', 'missing'), err => err.code === 'PROCEDURE_NOT_FOUND');
+await assert.rejects(inventory.callResource('garage', 'getBalance'), err => err.code === 'PROCEDURE_NOT_FOUND');
+
+// a resource that runs without RPC doesn't answer, so only the timeout ends the call
+await assert.rejects(inventory.callResource('weather', 'getWeather', undefined, { timeout: 50 }), err => err.code === 'TIMEOUT');
+
+// timed out calls are cancelled in the other resource
+await assert.rejects(inventory.callResource('banking', 'audit', undefined, { timeout: 50 }), err => err.code === 'TIMEOUT');
+await tick();
+assert.strictEqual(signal.aborted, true);
+
+// the instance that was initialized first takes the call, until it's gone
+assert.strictEqual(await inventory.callResource('banking', 'getBalance', { id: 1 }), 100);
+banking.destroy();
+assert.strictEqual(await inventory.callResource('banking', 'getBalance', { id: 1 }), 'admin');
+
+// clients can call the resources running on them too
+const hud = createRpc({ namespace: 'hud', transport: client.transport, ...quiet });
+const phone = createRpc({ namespace: 'phone', transport: client.addResource('phone'), ...quiet });
+phone.register('getContacts', (_, info) => [info.resource, 'Bob'], { public: true });
+await tick();
+assert.deepStrictEqual(await hud.callResource('phone', 'getContacts'), ['main', 'Bob']);
+
+// but not those on the other side
+await assert.rejects(inventory.callResource('phone', 'getContacts'), err => err.code === 'PROCEDURE_NOT_FOUND');
+
+[inventory, bankingAdmin, hud, phone].forEach(instance => instance.destroy());
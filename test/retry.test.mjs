@@ -0,0 +1,61 @@
+// Retries calls that timed out, and runs calls with the same idempotency key only once.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+
+const runs = { slow: 0, buy: 0, sell: 0, flaky: 0 };
+
+server.register('slow', () => {
+    runs.slow++;
+    return new Promise(resolve => setTimeout(() => resolve('done'), 60));
+});
+server.register('buy', item => (runs.buy++, `bought ${item}`));
+server.register('sell', item => (runs.sell++, `sold ${item}`));
+server.register('flaky', () => {
+    if (++runs.flaky === 1) throw new Error('try again');
+    return 'fine';
+});
+await tick();
+
+// a retry picks up the result of the attempt that timed out, instead of running it again
+assert.strictEqual(await clientRpc.callServer('slow', undefined, { timeout: 40, retry: { attempts: 3, delay: 10 } }), 'done');
+assert.strictEqual(runs.slow, 1);
+
+await assert.rejects(
+    clientRpc.callServer('slow', undefined, { timeout: 10, retry: { attempts: 2, delay: 5, backoff: 'fixed' } }),
+    err => err.code === 'TIMEOUT'
+);
+
+// the same key runs a procedure once
+assert.strictEqual(await clientRpc.callServer('buy', 'apple', { idempotencyKey: 'order-1' }), 'bought apple');
+assert.strictEqual(await clientRpc.callServer('buy', 'apple', { idempotencyKey: 'order-1' }), 'bought apple');
+assert.strictEqual(runs.buy, 1);
+
+// but it doesn't stand for calls to other procedures
+assert.strictEqual(await clientRpc.callServer('sell', 'apple', { idempotencyKey: 'order-1' }), 'sold apple');
+assert.strictEqual(runs.sell, 1);
+
+// or for other arguments
+await assert.rejects(clientRpc.callServer('buy', 'pear', { idempotencyKey: 'order-1' }), err => err.code === 'IDEMPOTENCY_CONFLICT');
+assert.strictEqual(runs.buy, 1);
+
+// failures are forgotten, so they can be retried
+await assert.rejects(clientRpc.callServer('flaky', undefined, { idempotencyKey: 'flaky-1' }), err => err.message === 'try again');
+assert.strictEqual(await clientRpc.callServer('flaky', undefined, { idempotencyKey: 'flaky-1' }), 'fine');
+
+// only the codes worth retrying are retried
+runs.flaky = 0;
+await assert.rejects(clientRpc.callServer('flaky', undefined, { retry: 3 }), err => err.message === 'try again');
+assert.strictEqual(runs.flaky, 1);
+
+await tick(100);
+server.destroy();
+clientRpc.destroy();
@@ -0,0 +1,28 @@
+// Runs every test file in its own process, so a test that never settles fails on the time limit instead of hanging the run.
+import { spawnSync } from 'child_process';
+import { readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const TIME_LIMIT = 10000;
+
+const dir = dirname(fileURLToPath(import.meta.url));
+const files = readdirSync(dir).filter(file => file.endsWith('.test.mjs')).sort();
+
+let failed = 0;
+
+for (const file of files) {
+    const result = spawnSync(process.execPath, [join(dir, file)], { encoding: 'utf8', timeout: TIME_LIMIT });
+
+    if (result.status === 0) {
+        console.log(`ok   ${file}`);
+    } else {
+        failed++;
+        console.log(`FAIL ${file}${result.error ? ` (${result.error.code === 'ETIMEDOUT' ? `no result after ${TIME_LIMIT}ms` : result.error.message})` : ''}`);
+        if (result.stdout) console.log(result.stdout);
+        if (result.stderr) console.log(result.stderr);
+    }
+}
+
+console.log(`${files.length - failed}/${files.length} passed`);
+if (failed) process.exit(1);
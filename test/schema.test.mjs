@@ -0,0 +1,75 @@
+// Checks arguments against a procedure's schema before it runs, and its result in development builds.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+
+let bought = 0;
+server.register('buyItem', ({ item, amount }) => (bought += amount, `${amount} ${item}`), {
+    validate: {
+        type: 'object',
+        props: {
+            item: { type: 'string', max: 32 },
+            amount: { type: 'number', integer: true, min: 1 },
+            note: { type: 'string', optional: true }
+        },
+        strict: true
+    }
+});
+server.register('order', items => items.length, {
+    validate: { type: 'array', min: 1, max: 3, items: { type: 'enum', values: ['water', 'bread'] } }
+});
+server.register('greet', name => `hi ${name}`, { validate: 'string' });
+server.register('kick', player => player.id, { validate: 'entity' });
+server.register('toggle', on => !on, { validate: { type: 'boolean', optional: true } });
+server.register('getUser', id => id === 1 ? { id, name: 'Bob' } : { id, name: 42 }, {
+    validate: 'number',
+    returns: { type: 'object', props: { id: 'number', name: 'string' } }
+});
+await tick();
+
+const invalid = (path, message) => err => {
+    assert.strictEqual(err.code, 'INVALID_ARGUMENTS');
+    assert.deepStrictEqual(err.details, { path, message });
+    return true;
+};
+
+// valid arguments run the procedure
+assert.strictEqual(await clientRpc.callServer('buyItem', { item: 'water', amount: 2 }), '2 water');
+assert.strictEqual(await clientRpc.callServer('buyItem', { item: 'water', amount: 1, note: 'cold' }), '1 water');
+assert.strictEqual(await clientRpc.callServer('order', ['water', 'bread']), 2);
+assert.strictEqual(await clientRpc.callServer('greet', 'Bob'), 'hi Bob');
+assert.strictEqual(await clientRpc.callServer('kick', client.player), client.player.id);
+assert.strictEqual(await clientRpc.callServer('toggle'), true);
+
+// invalid ones don't, and say what's wrong with them
+await assert.rejects(clientRpc.callServer('buyItem', { item: 'water', amount: -1 }), invalid('args.amount', 'must be at least 1'));
+await assert.rejects(clientRpc.callServer('buyItem', { item: 'water', amount: 1.5 }), invalid('args.amount', 'must be an integer'));
+await assert.rejects(clientRpc.callServer('buyItem', { amount: 1 }), invalid('args.item', 'is required'));
+await assert.rejects(clientRpc.callServer('buyItem', { item: 'a'.repeat(33), amount: 1 }), invalid('args.item', 'must have at most 32 characters'));
+await assert.rejects(clientRpc.callServer('buyItem', { item: 'water', amount: 1, price: 0 }), invalid('args.price', 'is not allowed'));
+await assert.rejects(clientRpc.callServer('buyItem', ['water', 1]), invalid('args', 'must be an object'));
+await assert.rejects(clientRpc.callServer('order', []), invalid('args', 'must have at least 1 items'));
+await assert.rejects(clientRpc.callServer('order', ['water', 'wine']), invalid('args[1]', 'must be one of "water", "bread"'));
+await assert.rejects(clientRpc.callServer('greet'), invalid('args', 'is required'));
+await assert.rejects(clientRpc.callServer('greet', 42), invalid('args', 'must be a string'));
+await assert.rejects(clientRpc.callServer('kick', { id: client.player.id }), invalid('args', 'must be an entity'));
+await assert.rejects(clientRpc.callServer('toggle', 'yes'), invalid('args', 'must be a boolean'));
+assert.strictEqual(bought, 3);
+
+// results are checked too, outside of production builds
+assert.deepStrictEqual(await clientRpc.callServer('getUser', 1), { id: 1, name: 'Bob' });
+await assert.rejects(clientRpc.callServer('getUser', 2), err => {
+    assert.strictEqual(err.code, 'INVALID_RESULT');
+    assert.deepStrictEqual(err.details, { path: 'result.name', message: 'must be a string' });
+    return true;
+});
+
+[server, clientRpc].forEach(instance => instance.destroy());
@@ -0,0 +1,101 @@
+// Round-trips the values each serializer knows about, between environments that might not use the same one.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+// wraps JSON in base64, like a binary format would have to
+const base64 = {
+    name: 'base64',
+    serialize: value => Buffer.from(JSON.stringify(value)).toString('base64'),
+    deserialize: data => JSON.parse(Buffer.from(data, 'base64').toString())
+};
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+const other = network.addClient();
+
+const server = createRpc({ namespace: 'test', transport: network.server, serializer: 'extended', ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, serializer: 'extended', ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+const otherRpc = createRpc({ namespace: 'test', transport: other.transport, serializer: base64, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+const received = [];
+const echo = value => (received.push(value), value);
+server.register('echo', echo);
+browserRpc.register('echo', echo);
+await tick();
+
+// the extended serializer keeps what JSON can't represent
+const house = {
+    boughtAt: new Date(1577836800000),
+    rooms: new Map([['kitchen', 12], ['hall', 4]]),
+    keys: new Set(['front', 'back']),
+    price: BigInt('9007199254740993'),
+    slots: [1, undefined, 3],
+    missing: undefined,
+    specials: [NaN, Infinity, -Infinity, -0],
+    buffer: new Uint8Array([1, 2, 250]).buffer,
+    floats: new Float32Array([1.5, -2.25]),
+    ints: new Int16Array([-300, 300]),
+    tagged: { __t: 'Date', v: 0 },
+    owner: client.player
+};
+
+const result = await clientRpc.callServer('echo', house);
+const arrived = received[0];
+
+[arrived, result].forEach(value => {
+    assert(value.boughtAt instanceof Date);
+    assert.strictEqual(value.boughtAt.getTime(), 1577836800000);
+    assert.deepStrictEqual(value.rooms, house.rooms);
+    assert.deepStrictEqual(value.keys, house.keys);
+    assert.strictEqual(value.price, house.price);
+    assert.deepStrictEqual(value.slots, [1, undefined, 3]);
+    assert('missing' in value);
+    assert(Number.isNaN(value.specials[0]));
+    assert.deepStrictEqual(value.specials.slice(1), [Infinity, -Infinity, -0]);
+    assert(Object.is(value.specials[3], -0));
+    assert.deepStrictEqual(Array.from(new Uint8Array(value.buffer)), [1, 2, 250]);
+    assert(value.floats instanceof Float32Array);
+    assert.deepStrictEqual(Array.from(value.floats), [1.5, -2.25]);
+    assert(value.ints instanceof Int16Array);
+    assert.deepStrictEqual(Array.from(value.ints), [-300, 300]);
+    assert.deepStrictEqual(value.tagged, { __t: 'Date', v: 0 });
+});
+assert.strictEqual(arrived.owner, client.player);
+assert.strictEqual(result.owner.id, client.player.id);
+
+assert.strictEqual(await clientRpc.callServer('echo'), undefined);
+assert.strictEqual(await clientRpc.callServer('echo', BigInt(5)), BigInt(5));
+
+// a browser using JSON can still call a server using the extended serializer, and is answered in JSON
+received.length = 0;
+assert.deepStrictEqual(await browserRpc.callServer('echo', { at: '2020-01-01', slots: [1, null] }), { at: '2020-01-01', slots: [1, null] });
+assert.deepStrictEqual(received, [{ at: '2020-01-01', slots: [1, null] }]);
+
+// JSON mangles what it doesn't know about
+received.length = 0;
+await browserRpc.callServer('echo', { at: new Date(0), slots: [1, undefined] });
+assert.deepStrictEqual(received, [{ at: '1970-01-01T00:00:00.000Z', slots: [1, null] }]);
+
+// while the built-in serializers are understood everywhere, so the server can still send a browser dates, and is answered in kind
+received.length = 0;
+const answered = await server.callBrowsers(client.player, 'echo', { at: new Date(0) });
+assert(received[0].at instanceof Date);
+assert(answered.at instanceof Date);
+
+// custom serializers work once both sides know them
+await assert.rejects(otherRpc.callServer('echo', 'hi'), err => err.code === 'INVALID_PAYLOAD');
+const otherServer = createRpc({ namespace: 'custom', transport: network.server, serializer: base64, ...quiet });
+const otherClient = createRpc({ namespace: 'custom', transport: other.transport, serializer: base64, ...quiet });
+otherServer.register('echo', echo);
+await tick();
+assert.deepStrictEqual(await otherClient.callServer('echo', { hi: [1, 2] }), { hi: [1, 2] });
+
+assert.throws(() => createRpc({ namespace: 'unknown', transport: network.server, serializer: 'msgpack' }), /Unknown serializer "msgpack"/);
+
+[server, clientRpc, browserRpc, otherRpc, otherServer, otherClient].forEach(instance => instance.destroy());
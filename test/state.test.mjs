@@ -0,0 +1,65 @@
+// Subscribes to shared state through the memory network, including subscriptions that are gone before the first snapshot arrives.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+await tick();
+
+const weather = server.state('weather');
+weather.set({ kind: 'rain' });
+
+// a browser that unsubscribes right away must not keep the client waiting for the snapshot
+browserRpc.subscribe('weather', () => {})();
+await tick();
+
+const values = [];
+browserRpc.subscribe('weather', value => values.push(value));
+await tick();
+assert.deepStrictEqual(values, [{ kind: 'rain' }]);
+
+weather.patch({ wind: 3 });
+await tick();
+assert.deepStrictEqual(values[values.length - 1], { kind: 'rain', wind: 3 });
+
+// a state scoped to the player replaces the shared one once it has a value, without going through `undefined`
+const seen = [];
+clientRpc.subscribe('weather', value => seen.push(value));
+await tick();
+
+const mine = server.state('weather', client.player);
+await tick();
+assert.deepStrictEqual(seen, [{ kind: 'rain', wind: 3 }]);
+
+mine.set({ mine: true });
+await tick();
+assert.deepStrictEqual(seen, [{ kind: 'rain', wind: 3 }, { mine: true }]);
+
+// and the player no longer follows the shared one
+weather.set({ kind: 'sun' });
+mine.patch({ more: 1 });
+await tick();
+assert.deepStrictEqual(seen.slice(2), [{ mine: true, more: 1 }]);
+assert.deepStrictEqual(values[values.length - 1], { mine: true, more: 1 });
+
+// the same when the webview is removed before the snapshot arrives
+const other = client.addWebView();
+const otherRpc = createRpc({ namespace: 'test', transport: other.transport, ...quiet });
+clientRpc.addWebView(other.webView);
+otherRpc.subscribe('forecast', () => {});
+clientRpc.removeWebView(other.webView);
+await tick();
+
+server.destroy();
+clientRpc.destroy();
+browserRpc.destroy();
+otherRpc.destroy();
@@ -0,0 +1,117 @@
+// Sends progress updates before a result, and streams the chunks of async iterables as they're produced.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+const browser = client.addWebView();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+const browserRpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+clientRpc.addWebView(browser.webView);
+
+server.register('loadCharacter', async (id, info) => {
+    info.progress(0);
+    await tick(5);
+    info.progress(0.5);
+    await tick(5);
+    info.progress(1);
+    return id;
+});
+
+let produced = 0;
+let stopped = 0;
+server.register('getChatHistory', async function* (channel) {
+    try {
+        for (let page = 0; page < 3; page++) {
+            produced++;
+            await tick(5);
+            yield [`${channel} ${page}`];
+        }
+    } finally {
+        stopped++;
+    }
+});
+server.register('endless', async function* () {
+    try {
+        for (let page = 0; ; page++) {
+            produced++;
+            await tick(5);
+            yield page;
+        }
+    } finally {
+        stopped++;
+    }
+});
+server.register('broken', async function* () {
+    yield 'first';
+    throw new RpcError('DB_DOWN', 'The database went away.');
+});
+await tick();
+
+const collect = async stream => {
+    const chunks = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+};
+
+// progress arrives in order, before the result
+const progress = [];
+assert.strictEqual(await clientRpc.callServer('loadCharacter', 5, { onProgress: value => progress.push(value) }), 5);
+assert.deepStrictEqual(progress, [0, 0.5, 1]);
+
+// also when relayed from a browser
+progress.length = 0;
+assert.strictEqual(await browserRpc.callServer('loadCharacter', 6, { onProgress: value => progress.push(['browser', value]) }), 6);
+assert.deepStrictEqual(progress, [['browser', 0], ['browser', 0.5], ['browser', 1]]);
+
+// without a listener, progress isn't sent at all
+assert.strictEqual(await clientRpc.callServer('loadCharacter', 7), 7);
+
+// streams arrive chunk by chunk, on every route
+assert.deepStrictEqual(await collect(await clientRpc.callServer('getChatHistory', 'global')), [['global 0'], ['global 1'], ['global 2']]);
+assert.deepStrictEqual(await collect(await browserRpc.callServer('getChatHistory', 'local')), [['local 0'], ['local 1'], ['local 2']]);
+assert.strictEqual(stopped, 2);
+
+// the first chunk is there before the generator is done
+produced = 0;
+const history = await clientRpc.callServer('getChatHistory', 'slow');
+const iterator = history[Symbol.asyncIterator]();
+assert.deepStrictEqual(await iterator.next(), { value: ['slow 0'], done: false });
+assert(produced < 3);
+await collect({ [Symbol.asyncIterator]: () => iterator });
+
+// leaving the loop early stops the generator
+stopped = 0;
+for await (const page of await clientRpc.callServer('endless')) {
+    if (page === 2) break;
+}
+await tick(50);
+assert.strictEqual(stopped, 1);
+const afterBreak = produced;
+await tick(50);
+assert.strictEqual(produced, afterBreak);
+
+// so does aborting the call's signal
+const controller = new AbortController();
+const endless = await clientRpc.callServer('endless', undefined, { signal: controller.signal });
+await assert.rejects((async () => {
+    for await (const page of endless) {
+        if (page === 1) controller.abort();
+    }
+})(), err => err.code === 'ABORTED');
+await tick(50);
+assert.strictEqual(stopped, 2);
+
+// an error thrown by the generator comes after the chunks that came before it
+const chunks = [];
+await assert.rejects((async () => {
+    for await (const chunk of await clientRpc.callServer('broken')) chunks.push(chunk);
+})(), err => err.code === 'DB_DOWN' && err.environment === 'server');
+assert.deepStrictEqual(chunks, ['first']);
+
+[server, clientRpc, browserRpc].forEach(instance => instance.destroy());
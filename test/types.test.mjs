@@ -0,0 +1,15 @@
+// Compiles a consumer of the published declarations, see types/consumer.ts.
+import { spawnSync } from 'child_process';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const require = createRequire(import.meta.url);
+const dir = dirname(fileURLToPath(import.meta.url));
+
+const result = spawnSync(process.execPath, [require.resolve('typescript/bin/tsc'), '-p', join(dir, 'types')], { encoding: 'utf8' });
+
+if (result.status !== 0) {
+    console.log(result.stdout, result.stderr);
+    process.exit(1);
+}
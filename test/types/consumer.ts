@@ -0,0 +1,67 @@
+// Uses the published declarations the way a consumer of the package would. Only compiled, never run.
+import rpc, { typed, createRpc, callServer } from 'altv-rpc';
+import { createMemoryNetwork, RpcError } from 'altv-rpc/dist/altv-rpc-core.mjs';
+
+interface Contract {
+    server: {
+        getBalance(args: { id: number }): number;
+        ping(): string;
+    };
+    client: {
+        getIsClimbing(): boolean;
+    };
+    browser: {
+        setTheme(args: 'dark' | 'light'): void;
+    };
+}
+
+async function client() {
+    const typedRpc = typed<Contract, 'client'>();
+
+    const balance: number = await typedRpc.callServer('getBalance', { id: 1 });
+    const pong: string = await typedRpc.callServer('ping');
+
+    // @ts-expect-error unknown procedure
+    typedRpc.callServer('getBalence', { id: 1 });
+
+    // @ts-expect-error wrong arguments
+    typedRpc.callServer('getBalance', { id: '1' });
+
+    // @ts-expect-error the result is a number
+    const wrong: string = await typedRpc.callServer('getBalance', { id: 1 });
+
+    typedRpc.register('getIsClimbing', () => true);
+    typedRpc.triggerBrowsers('setTheme', 'dark');
+
+    // the rest of the default export is still there
+    typedRpc.setLogLevel('warn');
+
+    return [balance, pong, wrong];
+}
+
+async function server() {
+    const network = createMemoryNetwork();
+    const instance = createRpc({ namespace: 'test', transport: network.server });
+    const typedInstance = instance.typed<Contract, 'server'>();
+
+    typedInstance.register('getBalance', ({ id }) => id * 2);
+
+    // @ts-expect-error the server needs a player to call a client
+    typedInstance.callClient('getIsClimbing');
+
+    const climbing: boolean = await typedInstance.callClient({}, 'getIsClimbing');
+    instance.destroy();
+
+    const untyped: Promise<any> = callServer('anything', [1, 2]);
+    rpc.init('other');
+
+    try {
+        await untyped;
+    } catch (e) {
+        if (e instanceof RpcError) return e.code;
+    }
+
+    return climbing;
+}
+
+export { client, server };
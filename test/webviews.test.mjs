@@ -0,0 +1,76 @@
+// Picks which of several webviews that registered the same procedure is called, or calls all of them.
+import assert from 'assert';
+import { createRpc, createMemoryNetwork, RpcError } from '../dist/altv-rpc-core.mjs';
+
+const tick = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+const quiet = { logLevel: 'silent' };
+
+const network = createMemoryNetwork();
+const client = network.addClient();
+
+const server = createRpc({ namespace: 'test', transport: network.server, ...quiet });
+const clientRpc = createRpc({ namespace: 'test', transport: client.transport, ...quiet });
+
+const themes = [];
+const browsers = ['hud', 'phone', 'menu'].map(id => {
+    const browser = client.addWebView();
+    const rpc = createRpc({ namespace: 'test', transport: browser.transport, ...quiet });
+    clientRpc.addWebView(browser.webView, { id });
+
+    rpc.on('announce', message => themes.push([id, 'announce', message]));
+
+    return { id, browser, rpc };
+});
+const [hud, phone, menu] = browsers;
+
+// the hud and the phone both want to know about the theme, in that order
+hud.rpc.register('setTheme', theme => (themes.push(['hud', theme]), 'hud'));
+await tick();
+phone.rpc.register('setTheme', theme => {
+    if (theme === 'pink') throw new RpcError('UNSUPPORTED', 'The phone has no pink theme.');
+    return themes.push(['phone', theme]), 'phone';
+});
+menu.rpc.register('open', () => 'menu');
+await tick();
+
+// the browser that registered last is called by default
+assert.strictEqual(await clientRpc.callBrowsers('setTheme', 'dark'), 'phone');
+assert.strictEqual(await clientRpc.callBrowsers('setTheme', 'dark', { browsers: 'last' }), 'phone');
+assert.strictEqual(await clientRpc.callBrowsers('setTheme', 'dark', { browsers: 'first' }), 'hud');
+assert.deepStrictEqual(themes, [['phone', 'dark'], ['phone', 'dark'], ['hud', 'dark']]);
+
+// or every one of them, each with a result of their own
+const all = await clientRpc.callBrowsers('setTheme', 'pink', { browsers: 'all' });
+assert.strictEqual(all.length, 2);
+assert.deepStrictEqual(all[0], { status: 'success', value: 'hud', id: 'hud' });
+assert.strictEqual(all[1].status, 'error');
+assert.strictEqual(all[1].id, 'phone');
+assert.strictEqual(all[1].error.code, 'UNSUPPORTED');
+
+// from the server and from another browser too
+assert.deepStrictEqual((await server.callBrowsers(client.player, 'setTheme', 'light', { browsers: 'all' })).map(result => result.value), ['hud', 'phone']);
+assert.strictEqual(await menu.rpc.callBrowsers('setTheme', 'light', { browsers: 'first' }), 'hud');
+
+// a browser can be picked by its ID
+assert.strictEqual(await clientRpc.callBrowsers('setTheme', 'blue', { browserId: 'hud' }), 'hud');
+assert.strictEqual(await server.callBrowsers(client.player, 'open', undefined, { browserId: 'menu' }), 'menu');
+await assert.rejects(clientRpc.callBrowsers('setTheme', 'blue', { browserId: 'radio' }), err => err.code === 'INVALID_BROWSER');
+
+// a browser that unregisters no longer receives the calls
+phone.rpc.unregister('setTheme');
+await tick();
+assert.strictEqual(await clientRpc.callBrowsers('setTheme', 'red'), 'hud');
+assert.deepStrictEqual((await clientRpc.callBrowsers('setTheme', 'red', { browsers: 'all' })).map(result => result.id), ['hud']);
+
+// and neither does one that was removed
+clientRpc.removeWebView(hud.browser.webView);
+await assert.rejects(clientRpc.callBrowsers('setTheme', 'red'), err => err.code === 'PROCEDURE_NOT_FOUND');
+await assert.rejects(clientRpc.callBrowsers('open', undefined, { browserId: 'hud' }), err => err.code === 'INVALID_BROWSER');
+
+// events reach every browser
+themes.length = 0;
+clientRpc.triggerBrowsers('announce', 'hello');
+await tick();
+assert.deepStrictEqual(themes, [['phone', 'announce', 'hello'], ['menu', 'announce', 'hello']]);
+
+[server, clientRpc, ...browsers.map(({ rpc }) => rpc)].forEach(instance => instance.destroy());